@@ -0,0 +1,273 @@
+/**
+ * zForms Frame Bridge
+ * Forwards events from forms embedded in iframes to the zForms instance of the parent page
+ */
+
+import type { zFormsEvent, FormSummary } from './types'
+import { generateUUID } from './ids'
+
+const MESSAGE_SOURCE = 'zforms'
+const HELLO_INTERVAL = 250
+const HANDSHAKE_TIMEOUT = 2000 // No parent instance by then - the frame sends its own events
+
+export type FrameBridgeState = 'connecting' | 'connected' | 'standalone'
+
+type BridgeMessage =
+  | { source: typeof MESSAGE_SOURCE; type: 'hello'; project_key: string; frame_id: string }
+  | { source: typeof MESSAGE_SOURCE; type: 'welcome'; session_id: string }
+  | {
+      source: typeof MESSAGE_SOURCE
+      type: 'events'
+      frame_id: string
+      events: zFormsEvent[]
+      forms: FormSummary[]
+    }
+
+interface ConnectedFrame {
+  window: Window
+  origin: string
+}
+
+/**
+ * Check if a message came from zForms (every field used later is validated here)
+ */
+function isBridgeMessage(data: unknown): data is BridgeMessage {
+  if (!data || typeof data !== 'object') return false
+
+  const message = data as Record<string, unknown>
+  if (message.source !== MESSAGE_SOURCE) return false
+
+  switch (message.type) {
+    case 'hello':
+      return typeof message.project_key === 'string' && typeof message.frame_id === 'string'
+    case 'welcome':
+      return typeof message.session_id === 'string'
+    case 'events':
+      return (
+        typeof message.frame_id === 'string' &&
+        Array.isArray(message.events) &&
+        message.events.every(isEvent) &&
+        Array.isArray(message.forms)
+      )
+    default:
+      return false
+  }
+}
+
+/**
+ * Check the shape of a forwarded event
+ */
+function isEvent(value: unknown): value is zFormsEvent {
+  const event = value as zFormsEvent
+  return (
+    !!event &&
+    typeof event.form_id === 'string' &&
+    typeof event.field_id === 'string' &&
+    typeof event.event_type === 'string' &&
+    typeof event.timestamp === 'string'
+  )
+}
+
+/**
+ * Parent side: accepts events from embedded frames on allow-listed origins
+ */
+export class FrameBridgeHost {
+  private projectKey: string
+  private origins: string[]
+  private getSessionId: () => string
+  private onEvents: (events: zFormsEvent[], forms: FormSummary[], frameId: string, origin: string) => void
+  private debug: boolean
+  private frames: Map<string, ConnectedFrame> = new Map()
+  private onMessage = (event: MessageEvent) => this.handleMessage(event)
+
+  constructor(
+    projectKey: string,
+    origins: string[],
+    getSessionId: () => string,
+    onEvents: (events: zFormsEvent[], forms: FormSummary[], frameId: string, origin: string) => void,
+    debug = false
+  ) {
+    this.projectKey = projectKey
+    this.origins = origins
+    this.getSessionId = getSessionId
+    this.onEvents = onEvents
+    this.debug = debug
+
+    window.addEventListener('message', this.onMessage)
+  }
+
+  /**
+   * Handle a message from a frame
+   */
+  private handleMessage(event: MessageEvent): void {
+    if (!this.origins.includes(event.origin) || !isBridgeMessage(event.data)) return
+
+    const source = event.source as Window | null
+    if (!source || source === window) return
+
+    const message = event.data
+    if (message.type === 'hello') {
+      // Events are sent under this instance's project key - never mix projects
+      if (message.project_key !== this.projectKey) {
+        if (this.debug) {
+          console.warn('[zForms] Ignoring frame with a different project key:', event.origin)
+        }
+        return
+      }
+
+      this.frames.set(message.frame_id, { window: source, origin: event.origin })
+      const welcome: BridgeMessage = { source: MESSAGE_SOURCE, type: 'welcome', session_id: this.getSessionId() }
+      source.postMessage(welcome, event.origin)
+
+      if (this.debug) {
+        console.log('[zForms] Frame connected:', event.origin)
+      }
+    } else if (message.type === 'events') {
+      // Only frames that completed the handshake, from the same window and origin
+      const frame = this.frames.get(message.frame_id)
+      if (!frame || frame.window !== source || frame.origin !== event.origin) return
+
+      this.onEvents(message.events, message.forms, message.frame_id, event.origin)
+    }
+  }
+
+  /**
+   * Stop listening for frames
+   */
+  destroy(): void {
+    window.removeEventListener('message', this.onMessage)
+    this.frames.clear()
+  }
+}
+
+/**
+ * Frame side: hands events to the parent page's instance once it answers the handshake
+ */
+export class FrameBridgeClient {
+  private frameId = generateUUID()
+  private projectKey: string
+  private origins: string[]
+  private onConnected: (sessionId: string) => void
+  private onStandalone: () => void
+  private debug: boolean
+  private state: FrameBridgeState = 'connecting'
+  private parentOrigin: string | null = null
+  private helloTimer: number | null = null
+  private timeoutTimer: number | null = null
+  private onMessage = (event: MessageEvent) => this.handleMessage(event)
+
+  constructor(
+    projectKey: string,
+    origins: string[],
+    onConnected: (sessionId: string) => void,
+    onStandalone: () => void,
+    debug = false
+  ) {
+    this.projectKey = projectKey
+    this.origins = origins
+    this.onConnected = onConnected
+    this.onStandalone = onStandalone
+    this.debug = debug
+
+    window.addEventListener('message', this.onMessage)
+
+    // The parent's script may load after ours - keep saying hello until the timeout
+    this.sayHello()
+    this.helloTimer = window.setInterval(() => this.sayHello(), HELLO_INTERVAL)
+    this.timeoutTimer = window.setTimeout(() => this.giveUp(), HANDSHAKE_TIMEOUT)
+  }
+
+  /**
+   * Get the bridge state
+   */
+  getState(): FrameBridgeState {
+    return this.state
+  }
+
+  /**
+   * Forward events (and this frame's form summaries) to the parent
+   */
+  send(events: zFormsEvent[], forms: FormSummary[]): void {
+    if (this.state !== 'connected' || !this.parentOrigin) return
+
+    const message: BridgeMessage = { source: MESSAGE_SOURCE, type: 'events', frame_id: this.frameId, events, forms }
+    try {
+      window.parent.postMessage(message, this.parentOrigin)
+    } catch (error) {
+      console.error('[zForms] Failed to forward events to parent:', error)
+    }
+  }
+
+  /**
+   * Post the handshake to every allowed origin (only the parent's actual origin receives it)
+   */
+  private sayHello(): void {
+    const hello: BridgeMessage = {
+      source: MESSAGE_SOURCE,
+      type: 'hello',
+      project_key: this.projectKey,
+      frame_id: this.frameId,
+    }
+
+    this.origins.forEach((origin) => {
+      try {
+        window.parent.postMessage(hello, origin)
+      } catch {
+        // Invalid origin in the allow-list
+      }
+    })
+  }
+
+  /**
+   * Handle the parent's welcome
+   */
+  private handleMessage(event: MessageEvent): void {
+    if (this.state !== 'connecting') return
+    if (event.source !== window.parent || !this.origins.includes(event.origin)) return
+    if (!isBridgeMessage(event.data) || event.data.type !== 'welcome') return
+
+    this.stopHandshake()
+    this.state = 'connected'
+    this.parentOrigin = event.origin
+
+    if (this.debug) {
+      console.log('[zForms] Connected to parent page:', event.origin)
+    }
+
+    this.onConnected(event.data.session_id)
+  }
+
+  /**
+   * No parent instance answered - run standalone
+   */
+  private giveUp(): void {
+    if (this.state !== 'connecting') return
+
+    this.stopHandshake()
+    this.state = 'standalone'
+
+    if (this.debug) {
+      console.log('[zForms] No parent page instance - sending events directly')
+    }
+
+    this.onStandalone()
+  }
+
+  /**
+   * Stop the handshake timers
+   */
+  private stopHandshake(): void {
+    if (this.helloTimer) clearInterval(this.helloTimer)
+    if (this.timeoutTimer) clearTimeout(this.timeoutTimer)
+    this.helloTimer = null
+    this.timeoutTimer = null
+  }
+
+  /**
+   * Stop the handshake and stop listening
+   */
+  destroy(): void {
+    this.stopHandshake()
+    window.removeEventListener('message', this.onMessage)
+  }
+}
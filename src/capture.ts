@@ -0,0 +1,124 @@
+/**
+ * zForms Value Capture
+ * Opt-in, privacy-safe derivatives of field values (data-zforms-capture)
+ */
+
+import type { CaptureMode } from './types'
+import { getGroupScope } from './shadow'
+
+const CAPTURE_ATTRIBUTE = 'data-zforms-capture'
+const CAPTURE_MODES: CaptureMode[] = ['option', 'length', 'hash', 'domain']
+
+// [upper bound, label] - lengths are bucketed so exact values can't be inferred
+const LENGTH_BUCKETS: Array<[number, string]> = [
+  [0, '0'],
+  [5, '1-5'],
+  [10, '6-10'],
+  [20, '11-20'],
+  [50, '21-50'],
+  [100, '51-100'],
+]
+
+/**
+ * Fields that are never captured, whatever the configuration says
+ */
+export function isNeverCaptured(element: HTMLElement): boolean {
+  if (element instanceof HTMLInputElement && element.type === 'password') return true
+
+  // Payment card fields: autocomplete="cc-number", "billing cc-csc", ...
+  const autocomplete = (element.getAttribute('autocomplete') || '').toLowerCase().split(/\s+/)
+  return autocomplete.some((token) => token.startsWith('cc-'))
+}
+
+/**
+ * Get the capture mode a field opted into, if any
+ */
+export function getCaptureMode(element: HTMLElement): CaptureMode | null {
+  const mode = element.getAttribute(CAPTURE_ATTRIBUTE) as CaptureMode | null
+  if (!mode || !CAPTURE_MODES.includes(mode) || isNeverCaptured(element)) return null
+  return mode
+}
+
+/**
+ * Read the raw value of a field (only ever used to derive a safe value)
+ */
+function readValue(element: HTMLElement): string {
+  if (element instanceof HTMLSelectElement) {
+    return Array.from(element.selectedOptions)
+      .map((option) => option.value)
+      .join(',')
+  }
+
+  if (element instanceof HTMLInputElement) {
+    if (element.type === 'radio' || element.type === 'checkbox') {
+      // The group's checked value, not this input's
+      const group = element.name
+        ? getGroupScope(element).querySelectorAll<HTMLInputElement>(`input[name="${CSS.escape(element.name)}"]`)
+        : [element]
+      return Array.from(group)
+        .filter((input) => input.checked)
+        .map((input) => input.value)
+        .join(',')
+    }
+    return element.value
+  }
+
+  if (element instanceof HTMLTextAreaElement) return element.value
+
+  // Form-associated custom elements usually expose a value property
+  const value = (element as { value?: unknown }).value
+  if (typeof value === 'string') return value
+
+  return element.textContent || ''
+}
+
+/**
+ * Bucket a length (e.g. '11-20')
+ */
+function lengthBucket(length: number): string {
+  for (const [max, label] of LENGTH_BUCKETS) {
+    if (length <= max) return label
+  }
+  return '100+'
+}
+
+/**
+ * Salted SHA-256 hex digest (SubtleCrypto only exists in secure contexts)
+ */
+export async function sha256(value: string, salt: string): Promise<string | undefined> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return undefined
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${value}`))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Derive the safe value for a field's capture mode
+ */
+export async function captureValue(
+  element: HTMLElement,
+  mode: CaptureMode,
+  salt: string
+): Promise<string | undefined> {
+  // Re-check at capture time - attributes can change after the field was tracked
+  if (isNeverCaptured(element)) return undefined
+
+  const value = readValue(element).trim()
+
+  switch (mode) {
+    case 'option':
+      // Only meaningful for fixed choices
+      return element instanceof HTMLSelectElement ||
+        (element instanceof HTMLInputElement && (element.type === 'radio' || element.type === 'checkbox'))
+        ? value
+        : undefined
+    case 'length':
+      return lengthBucket(value.length)
+    case 'hash':
+      return value ? sha256(value.toLowerCase(), salt) : undefined
+    case 'domain': {
+      const at = value.lastIndexOf('@')
+      return at > 0 && at < value.length - 1 ? value.slice(at + 1).toLowerCase() : undefined
+    }
+  }
+}
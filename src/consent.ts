@@ -0,0 +1,197 @@
+/**
+ * zForms Consent Manager
+ * Tracks visitor consent from the host app, CMPs and browser privacy signals
+ */
+
+import type { ConsentState, ConsentAdapter } from './types'
+
+// TCF purposes needed for analytics: store/access information, measure content performance
+const TCF_PURPOSES = [1, 8]
+
+type ConsentChangeHandler = (state: ConsentState) => void
+
+// IAB TCF v2 data passed to __tcfapi listeners (the fields used here)
+interface TCData {
+  eventStatus?: string
+  gdprApplies?: boolean
+  listenerId?: number
+  purpose?: { consents?: Record<number, boolean> }
+}
+
+type TcfApi = (
+  command: string,
+  version: number,
+  callback: (tcData: TCData | null, success: boolean) => void,
+  parameter?: unknown
+) => void
+
+// Globals set by CMPs, gtag and older browsers
+interface ConsentWindow {
+  __tcfapi?: TcfApi
+  dataLayer?: unknown[]
+  doNotTrack?: string // Legacy Edge and IE
+}
+
+/**
+ * Check for Global Privacy Control or Do-Not-Track
+ */
+export function hasPrivacySignal(): boolean {
+  const nav: Navigator & { globalPrivacyControl?: boolean } = navigator
+  return (
+    nav.globalPrivacyControl === true ||
+    nav.doNotTrack === '1' ||
+    nav.doNotTrack === 'yes' ||
+    (window as ConsentWindow).doNotTrack === '1'
+  )
+}
+
+export class ConsentManager {
+  private state: ConsentState
+  private handler: ConsentChangeHandler
+  private locked: boolean // Browser privacy signal - cannot be overridden
+  private debug: boolean
+  private tcfListenerId: number | null = null
+  private originalDataLayerPush: ((...items: unknown[]) => number) | null = null
+
+  constructor(initial: ConsentState, handler: ConsentChangeHandler, locked = false, debug = false) {
+    this.state = initial
+    this.handler = handler
+    this.locked = locked
+    this.debug = debug
+  }
+
+  /**
+   * Start listening to CMP signals (may call the handler synchronously)
+   */
+  watch(adapters: ConsentAdapter[] = []): void {
+    if (this.locked) return
+
+    if (adapters.includes('tcf')) {
+      this.watchTcf()
+    }
+    if (adapters.includes('google_consent_mode')) {
+      this.watchGoogleConsentMode()
+    }
+  }
+
+  /**
+   * Get current consent state
+   */
+  getState(): ConsentState {
+    return this.state
+  }
+
+  /**
+   * Update consent state and notify on change
+   */
+  set(state: ConsentState): void {
+    if (this.locked && state === 'granted') {
+      if (this.debug) {
+        console.log('[zForms] Consent grant ignored: browser privacy signal is set')
+      }
+      return
+    }
+
+    if (state === this.state) return
+    this.state = state
+
+    if (this.debug) {
+      console.log('[zForms] Consent:', state)
+    }
+
+    this.handler(state)
+  }
+
+  /**
+   * Listen to IAB TCF v2 consent via __tcfapi
+   */
+  private watchTcf(): void {
+    const tcfapi = (window as ConsentWindow).__tcfapi
+    if (typeof tcfapi !== 'function') {
+      // CMP may load after us - try once more when the page has loaded
+      if (document.readyState !== 'complete') {
+        window.addEventListener('load', () => this.watchTcf(), { once: true })
+      } else if (this.debug) {
+        console.warn('[zForms] TCF consent adapter enabled but __tcfapi not found')
+      }
+      return
+    }
+
+    tcfapi('addEventListener', 2, (tcData, success) => {
+      if (!success || !tcData) return
+      if (typeof tcData.listenerId === 'number') {
+        this.tcfListenerId = tcData.listenerId
+      }
+
+      // Only act on a final decision, not while the CMP UI is showing
+      if (tcData.eventStatus !== 'tcloaded' && tcData.eventStatus !== 'useractioncomplete') return
+
+      if (tcData.gdprApplies === false) {
+        this.set('granted')
+        return
+      }
+
+      const consents: Record<number, boolean> = (tcData.purpose && tcData.purpose.consents) || {}
+      this.set(TCF_PURPOSES.every((purpose) => consents[purpose]) ? 'granted' : 'denied')
+    })
+  }
+
+  /**
+   * Listen to Google Consent Mode commands (gtag('consent', ...)) on the dataLayer
+   */
+  private watchGoogleConsentMode(): void {
+    const w = window as ConsentWindow
+    w.dataLayer = w.dataLayer || []
+    const dataLayer = w.dataLayer
+
+    // Replay commands issued before we loaded
+    for (const entry of dataLayer) {
+      this.readConsentCommand(entry)
+    }
+
+    this.originalDataLayerPush = dataLayer.push
+    const originalPush = this.originalDataLayerPush!
+    const read = (entry: unknown) => this.readConsentCommand(entry)
+
+    dataLayer.push = function (...items: unknown[]) {
+      items.forEach(read)
+      return originalPush.apply(this, items)
+    }
+  }
+
+  /**
+   * Read analytics_storage from a gtag consent command
+   */
+  private readConsentCommand(entry: unknown): void {
+    // gtag() pushes its arguments object: ['consent', 'default' | 'update', { ... }]
+    if (!entry || typeof entry !== 'object' || !('length' in entry)) return
+    const command = entry as ArrayLike<unknown>
+    const settings = command[2] as { analytics_storage?: unknown } | undefined
+    if (command[0] !== 'consent' || !settings || typeof settings !== 'object') return
+
+    const analyticsStorage = settings.analytics_storage
+    if (analyticsStorage === 'granted') {
+      this.set('granted')
+    } else if (analyticsStorage === 'denied' && command[1] === 'update') {
+      // A 'default' of denied is the pre-banner state, not the visitor's decision
+      this.set('denied')
+    }
+  }
+
+  /**
+   * Remove CMP listeners
+   */
+  destroy(): void {
+    const w = window as ConsentWindow
+
+    if (this.tcfListenerId !== null && typeof w.__tcfapi === 'function') {
+      w.__tcfapi('removeEventListener', 2, () => {}, this.tcfListenerId)
+      this.tcfListenerId = null
+    }
+
+    if (this.originalDataLayerPush && w.dataLayer) {
+      w.dataLayer.push = this.originalDataLayerPush
+      this.originalDataLayerPush = null
+    }
+  }
+}
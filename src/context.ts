@@ -0,0 +1,121 @@
+/**
+ * zForms Context
+ * Coarse, privacy-safe description of the page and device, sent once per batch
+ */
+
+import type { BatchContext, DeviceClass, InputModality, ScreenClass } from './types'
+import { getCampaign, getReferrer } from './session'
+
+export const SCRIPT_VERSION = '1.0.0' // Keep in sync with package.json
+
+// Upper bounds of the screen classes (CSS pixels of viewport width)
+const SCREEN_CLASSES: Array<[ScreenClass, number]> = [
+  ['xs', 576],
+  ['sm', 768],
+  ['md', 992],
+  ['lg', 1200],
+]
+const VIEWPORT_ROUNDING = 10 // Exact window sizes help fingerprinting
+
+/**
+ * Check a media query, false where matchMedia is unavailable
+ */
+function matches(query: string): boolean {
+  return typeof matchMedia === 'function' && matchMedia(query).matches
+}
+
+/**
+ * Classify a viewport width
+ */
+function getScreenClass(width: number): ScreenClass {
+  const match = SCREEN_CLASSES.find(([, max]) => width < max)
+  return match ? match[0] : 'xl'
+}
+
+/**
+ * Coarse device class from the primary pointer and screen size - the user agent is never read
+ */
+function getDeviceClass(): DeviceClass {
+  if (!matches('(pointer: coarse)')) return 'desktop'
+  return Math.min(screen.width, screen.height) < 600 ? 'mobile' : 'tablet'
+}
+
+/**
+ * Page URL without fragment, keeping only allow-listed query parameters
+ */
+function getContextUrl(allowedParams: string[]): string {
+  const params = new URLSearchParams(location.search)
+  const kept = new URLSearchParams()
+  params.forEach((value, key) => {
+    if (allowedParams.includes(key)) kept.append(key, value)
+  })
+
+  const query = kept.toString()
+  return location.origin + location.pathname + (query ? `?${query}` : '')
+}
+
+export class ContextCollector {
+  private context: BatchContext
+  private onPointerDown = (event: PointerEvent) => {
+    this.context.input = event.pointerType === 'mouse' ? 'mouse' : 'touch' // Pens count as touch
+  }
+  private onKeyDown = (event: KeyboardEvent) => {
+    // Typing doesn't say how the visitor moves around the form - tabbing does
+    if (event.key === 'Tab') this.context.input = 'keyboard'
+  }
+
+  constructor(allowedParams: string[] = []) {
+    const width = window.innerWidth
+    const campaign = getCampaign()
+    let timezone: string | undefined
+    try {
+      timezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+    } catch {
+      // Intl unavailable
+    }
+
+    this.context = {
+      script_version: SCRIPT_VERSION,
+      device: getDeviceClass(),
+      screen_class: getScreenClass(width),
+      viewport: {
+        width: Math.round(width / VIEWPORT_ROUNDING) * VIEWPORT_ROUNDING,
+        height: Math.round(window.innerHeight / VIEWPORT_ROUNDING) * VIEWPORT_ROUNDING,
+      },
+      input: this.getInitialModality(),
+      language: navigator.language,
+      timezone,
+      url: getContextUrl(allowedParams),
+      referrer: getReferrer(),
+      ...(Object.keys(campaign).length > 0 ? { utm: campaign } : {}),
+    }
+
+    // Capture phase: handlers that stop propagation don't hide the modality
+    document.addEventListener('pointerdown', this.onPointerDown, { capture: true, passive: true })
+    document.addEventListener('keydown', this.onKeyDown, { capture: true, passive: true })
+  }
+
+  /**
+   * Guess the modality from the primary pointer until the visitor interacts
+   */
+  private getInitialModality(): InputModality {
+    if (matches('(pointer: coarse)')) return 'touch'
+    if (matches('(pointer: fine)')) return 'mouse'
+    return 'unknown'
+  }
+
+  /**
+   * Get the context for a batch (input reflects the last interaction)
+   */
+  get(): BatchContext {
+    return { ...this.context }
+  }
+
+  /**
+   * Stop watching input
+   */
+  destroy(): void {
+    document.removeEventListener('pointerdown', this.onPointerDown, { capture: true })
+    document.removeEventListener('keydown', this.onKeyDown, { capture: true })
+  }
+}
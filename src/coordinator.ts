@@ -0,0 +1,226 @@
+/**
+ * zForms Tab Coordinator
+ * Elects one leader tab per project to drain persisted events
+ */
+
+import { generateUUID } from './ids'
+
+const HEARTBEAT_INTERVAL = 2000
+const LEADER_TIMEOUT = 5000 // Heartbeat older than this means the leader tab is gone
+
+interface LeaderRecord {
+  id: string
+  expires_at: number
+}
+
+export class TabCoordinator {
+  private tabId = generateUUID()
+  private leader = false
+  private debug: boolean
+  private lockName: string
+  private leaderKey: string
+  private handoffKey: string
+  private onLeader: () => void
+  private onHandoff: () => void
+  private channel: BroadcastChannel | null = null
+  private lockAbort: AbortController | null = null
+  private releaseLock: (() => void) | null = null
+  private heartbeatTimer: number | null = null
+  private onStorage = (event: StorageEvent) => {
+    if (event.key === this.handoffKey && event.newValue) this.handleHandoff()
+  }
+  private onPageHide = () => this.resign()
+
+  constructor(project: string, onLeader: () => void, onHandoff: () => void, debug = false) {
+    this.lockName = `zForms_leader_${project}`
+    this.leaderKey = `zForms_leader_${project}`
+    this.handoffKey = `zForms_handoff_${project}`
+    this.onLeader = onLeader
+    this.onHandoff = onHandoff
+    this.debug = debug
+
+    this.setupHandoffChannel()
+
+    if ('locks' in navigator) {
+      this.electWithLock(navigator.locks)
+    } else if (this.hasLocalStorage()) {
+      this.electWithHeartbeat()
+    } else {
+      // No way to coordinate - every tab drains its own backlog
+      this.becomeLeader()
+    }
+  }
+
+  /**
+   * Check if this tab drains the persisted backlog
+   */
+  isLeader(): boolean {
+    return this.leader
+  }
+
+  /**
+   * Tell the leader tab that unsent events were persisted for it
+   */
+  notifyHandoff(): void {
+    if (this.channel) {
+      this.channel.postMessage({ type: 'handoff', from: this.tabId })
+      return
+    }
+
+    try {
+      localStorage.setItem(this.handoffKey, `${this.tabId}:${Date.now()}`)
+    } catch {
+      // Leader picks the events up on its next periodic drain
+    }
+  }
+
+  /**
+   * Web Locks: the lock is held until this tab closes, then granted to the next waiting tab
+   */
+  private electWithLock(locks: LockManager): void {
+    this.lockAbort = new AbortController()
+
+    locks
+      .request(this.lockName, { signal: this.lockAbort.signal }, () => {
+        this.becomeLeader()
+        return new Promise<void>((resolve) => {
+          this.releaseLock = resolve
+        })
+      })
+      .catch(() => {
+        // Aborted on destroy
+      })
+  }
+
+  /**
+   * Fallback: leader refreshes a heartbeat in localStorage; others take over when it expires
+   */
+  private electWithHeartbeat(): void {
+    const tick = () => {
+      const now = Date.now()
+      const record = this.readLeader()
+
+      if (!record || record.expires_at <= now || record.id === this.tabId) {
+        this.writeLeader({ id: this.tabId, expires_at: now + LEADER_TIMEOUT })
+
+        // Another tab may have written at the same time - last writer wins
+        if (!this.leader && this.readLeader()?.id === this.tabId) {
+          this.becomeLeader()
+        }
+      } else if (this.leader) {
+        this.leader = false
+
+        if (this.debug) {
+          console.log('[zForms] Lost tab leadership')
+        }
+      }
+    }
+
+    tick()
+    this.heartbeatTimer = window.setInterval(tick, HEARTBEAT_INTERVAL)
+    window.addEventListener('pagehide', this.onPageHide)
+  }
+
+  private becomeLeader(): void {
+    this.leader = true
+
+    if (this.debug) {
+      console.log('[zForms] This tab is the leader')
+    }
+
+    this.onLeader()
+  }
+
+  /**
+   * Hand leadership over right away instead of waiting for the heartbeat to expire
+   */
+  private resign(): void {
+    if (!this.leader) return
+    this.leader = false
+
+    if (this.releaseLock) {
+      this.releaseLock()
+      this.releaseLock = null
+    }
+
+    if (this.readLeader()?.id === this.tabId) {
+      try {
+        localStorage.removeItem(this.leaderKey)
+      } catch {
+        // Heartbeat expires on its own
+      }
+    }
+  }
+
+  private setupHandoffChannel(): void {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.handoffKey)
+      this.channel.onmessage = (event) => {
+        if (event.data && event.data.type === 'handoff') this.handleHandoff()
+      }
+    } else {
+      window.addEventListener('storage', this.onStorage)
+    }
+  }
+
+  private handleHandoff(): void {
+    if (!this.leader) return
+
+    if (this.debug) {
+      console.log('[zForms] Received unsent events from a closing tab')
+    }
+
+    this.onHandoff()
+  }
+
+  private hasLocalStorage(): boolean {
+    try {
+      localStorage.getItem(this.leaderKey)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  private readLeader(): LeaderRecord | null {
+    try {
+      const stored = localStorage.getItem(this.leaderKey)
+      return stored ? JSON.parse(stored) : null
+    } catch {
+      return null
+    }
+  }
+
+  private writeLeader(record: LeaderRecord): void {
+    try {
+      localStorage.setItem(this.leaderKey, JSON.stringify(record))
+    } catch {
+      // Storage full or blocked - keep current role
+    }
+  }
+
+  /**
+   * Release leadership and stop listening
+   */
+  destroy(): void {
+    this.resign()
+
+    if (this.lockAbort) {
+      this.lockAbort.abort()
+      this.lockAbort = null
+    }
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+    }
+
+    if (this.channel) {
+      this.channel.close()
+      this.channel = null
+    }
+
+    window.removeEventListener('storage', this.onStorage)
+    window.removeEventListener('pagehide', this.onPageHide)
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * zForms Emitter
+ * Typed listeners that let host apps observe what zForms tracks and sends
+ */
+
+type Handler<T> = (payload: T) => void
+
+export class Emitter<Events extends object> {
+  private handlers: { [K in keyof Events]?: Array<Handler<Events[K]>> } = {}
+
+  /**
+   * Add a listener
+   */
+  on<K extends keyof Events>(name: K, handler: Handler<Events[K]>): void {
+    const handlers = this.handlers[name] || []
+    if (!handlers.includes(handler)) handlers.push(handler)
+    this.handlers[name] = handlers
+  }
+
+  /**
+   * Remove a listener, or every listener of that name
+   */
+  off<K extends keyof Events>(name: K, handler?: Handler<Events[K]>): void {
+    if (!handler) {
+      delete this.handlers[name]
+      return
+    }
+    this.handlers[name] = (this.handlers[name] || []).filter((other) => other !== handler)
+  }
+
+  /**
+   * Call the listeners of a name - a failing listener never affects tracking
+   */
+  emit<K extends keyof Events>(name: K, payload: Events[K]): void {
+    const handlers = this.handlers[name]
+    if (!handlers) return
+
+    handlers.slice().forEach((handler) => {
+      try {
+        handler(payload)
+      } catch (error) {
+        console.error(`[zForms] '${String(name)}' listener failed:`, error)
+      }
+    })
+  }
+
+  /**
+   * Remove every listener
+   */
+  clear(): void {
+    this.handlers = {}
+  }
+}
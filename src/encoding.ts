@@ -0,0 +1,157 @@
+/**
+ * zForms Payload Encoding
+ * Compact wire format and gzip compression for event batches
+ *
+ * Compact format (version 2):
+ * - Fields shared by every event (session_id, visitor_id, user_id, form_id, page_path) are hoisted to `shared`
+ * - Repeated strings (IDs, event types, metadata keys) are replaced by indexes into `strings`
+ * - Event keys are shortened (see EVENT_KEYS) and timestamps are ms offsets from `base_time`
+ */
+
+import type { EventBatch, BatchContext } from './types'
+
+export const PLAIN_FORMAT_VERSION = 1
+export const COMPACT_FORMAT_VERSION = 2
+
+// Long key -> short key for event fields
+const EVENT_KEYS: Record<string, string> = {
+  event_id: 'id',
+  form_id: 'f',
+  field_id: 'fi',
+  event_type: 't',
+  time_spent_ms: 'ms',
+  session_id: 's',
+  timestamp: 'ts',
+  page_path: 'p',
+  metadata: 'm',
+  experiments: 'x',
+  form_version: 'v',
+  visitor_id: 'vi',
+  user_id: 'u',
+}
+
+// Event fields whose values go through the string dictionary
+const DICTIONARY_FIELDS = [
+  'form_id',
+  'field_id',
+  'event_type',
+  'page_path',
+  'session_id',
+  'form_version',
+  'visitor_id',
+  'user_id',
+]
+
+// Fields hoisted to the batch when every event has the same value
+const HOISTABLE_FIELDS = ['session_id', 'visitor_id', 'user_id', 'form_id', 'page_path'] as const
+
+export interface CompactEventBatch {
+  version: number
+  project_key: string
+  batch_id: string
+  sequence: number
+  context?: BatchContext
+  dropped_events?: number
+  base_time: number // Epoch ms that event `ts` offsets are relative to
+  shared: Partial<Record<(typeof HOISTABLE_FIELDS)[number], string>>
+  strings: string[]
+  events: Array<Record<string, unknown>>
+}
+
+/**
+ * Builds a string dictionary, returning the index for each string
+ */
+class StringTable {
+  readonly strings: string[] = []
+  private indexes = new Map<string, number>()
+
+  index(value: string): number {
+    let index = this.indexes.get(value)
+    if (index === undefined) {
+      index = this.strings.length
+      this.strings.push(value)
+      this.indexes.set(value, index)
+    }
+    return index
+  }
+}
+
+/**
+ * Convert a batch to the compact format
+ */
+export function toCompactBatch(batch: EventBatch): CompactEventBatch {
+  const { events } = batch
+  const table = new StringTable()
+
+  const shared: CompactEventBatch['shared'] = {}
+  for (const field of HOISTABLE_FIELDS) {
+    const value = events.length > 0 ? events[0][field] : undefined
+    if (value !== undefined && events.every((event) => event[field] === value)) {
+      shared[field] = value
+    }
+  }
+
+  const times = events.map((event) => Date.parse(event.timestamp)).filter((time) => !isNaN(time))
+  const baseTime = times.length > 0 ? Math.min(...times) : Date.now()
+
+  const compactEvents = events.map((event) => {
+    const compact: Record<string, unknown> = {}
+
+    for (const [key, value] of Object.entries(event)) {
+      if (value === undefined || key in shared) continue
+      const shortKey = EVENT_KEYS[key] || key
+
+      if (key === 'timestamp') {
+        compact[shortKey] = Date.parse(value as string) - baseTime
+      } else if (key === 'metadata') {
+        // Metadata keys repeat on every event - index them, keep values as-is
+        const metadata: Record<number, unknown> = {}
+        for (const [metaKey, metaValue] of Object.entries(value as object)) {
+          if (metaValue !== undefined) metadata[table.index(metaKey)] = metaValue
+        }
+        compact[shortKey] = metadata
+      } else if (DICTIONARY_FIELDS.includes(key) && typeof value === 'string') {
+        compact[shortKey] = table.index(value)
+      } else {
+        compact[shortKey] = value
+      }
+    }
+
+    return compact
+  })
+
+  return {
+    version: COMPACT_FORMAT_VERSION,
+    project_key: batch.project_key,
+    batch_id: batch.batch_id,
+    sequence: batch.sequence,
+    ...(batch.context ? { context: batch.context } : {}),
+    ...(batch.dropped_events ? { dropped_events: batch.dropped_events } : {}),
+    base_time: baseTime,
+    shared,
+    strings: table.strings,
+    events: compactEvents,
+  }
+}
+
+/**
+ * Serialize a batch in the plain or compact format
+ */
+export function encodeBatch(batch: EventBatch, compact: boolean): string {
+  return JSON.stringify(compact ? toCompactBatch(batch) : batch)
+}
+
+/**
+ * Check if the browser can gzip request bodies
+ */
+export function canCompress(): boolean {
+  return typeof CompressionStream !== 'undefined'
+}
+
+/**
+ * Gzip a string with CompressionStream
+ */
+export async function gzip(body: string): Promise<ArrayBuffer> {
+  const stream = new Blob([body]).stream().pipeThrough(new CompressionStream('gzip'))
+  return new Response(stream).arrayBuffer()
+}
@@ -0,0 +1,105 @@
+/**
+ * zForms Experiments
+ * A/B test variants declared on forms or read from testing tools' globals and cookies
+ */
+
+import type { ExperimentAdapter, Experiments } from './types'
+
+const VARIANT_ATTRIBUTE = 'data-zforms-variant'
+const EXPERIMENT_ATTRIBUTE = 'data-zforms-experiment'
+const VWO_COOKIE_PATTERN = /(?:^|;\s*)_vis_opt_exp_(\d+)_combi=(\d+)/g
+
+/**
+ * Read the variant a form declares (data-zforms-variant, named by data-zforms-experiment or the form ID)
+ */
+export function getFormExperiment(form: HTMLFormElement, formId: string): Experiments {
+  const variant = form.getAttribute(VARIANT_ATTRIBUTE)
+  if (!variant) return {}
+
+  return { [form.getAttribute(EXPERIMENT_ATTRIBUTE) || formId]: variant }
+}
+
+/**
+ * Read a cookie value
+ */
+function getCookie(name: string): string | null {
+  for (const part of document.cookie.split(';')) {
+    const [key, ...value] = part.trim().split('=')
+    if (key === name) return decodeURIComponent(value.join('='))
+  }
+  return null
+}
+
+/**
+ * Optimizely Web: active experiments from the state API
+ */
+function readOptimizely(): Experiments {
+  const optimizely = (window as any).optimizely
+  if (!optimizely || typeof optimizely.get !== 'function') return {}
+
+  const experiments: Experiments = {}
+  const states = optimizely.get('state')?.getExperimentStates?.({ isActive: true }) || {}
+  Object.keys(states).forEach((id) => {
+    const state = states[id]
+    if (state?.variation) {
+      experiments[state.experimentName || id] = String(state.variation.name || state.variation.id)
+    }
+  })
+  return experiments
+}
+
+/**
+ * VWO: combination cookies, named from the _vwo_exp global when available
+ */
+function readVWO(): Experiments {
+  const definitions = (window as any)._vwo_exp || {}
+  const experiments: Experiments = {}
+
+  for (const [, id, combination] of document.cookie.matchAll(VWO_COOKIE_PATTERN)) {
+    const definition = definitions[id]
+    experiments[definition?.name || id] = String(definition?.comb_n?.[combination] || combination)
+  }
+  return experiments
+}
+
+/**
+ * AB Tasty: campaign results global
+ */
+function readABTasty(): Experiments {
+  const results = (window as any).ABTasty?.results || {}
+  const experiments: Experiments = {}
+
+  Object.keys(results).forEach((id) => {
+    const result = results[id]
+    if (result?.variationName) {
+      experiments[result.name || id] = String(result.variationName)
+    }
+  })
+  return experiments
+}
+
+/**
+ * Read variants from the configured testing tools - a broken tool never breaks tracking
+ */
+export function readAdapterExperiments(adapters: ExperimentAdapter[]): Experiments {
+  const experiments: Experiments = {}
+
+  adapters.forEach((adapter) => {
+    try {
+      if (typeof adapter !== 'string') {
+        const variant = getCookie(adapter.cookie)
+        if (variant) experiments[adapter.experiment || adapter.cookie] = variant
+      } else if (adapter === 'optimizely') {
+        Object.assign(experiments, readOptimizely())
+      } else if (adapter === 'vwo') {
+        Object.assign(experiments, readVWO())
+      } else if (adapter === 'abtasty') {
+        Object.assign(experiments, readABTasty())
+      }
+    } catch {
+      // Tool not loaded yet, or its API changed
+    }
+  })
+
+  return experiments
+}
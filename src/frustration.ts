@@ -0,0 +1,45 @@
+/**
+ * zForms Frustration Signals
+ * Thresholds and click classification for rage clicks, dead clicks and other signs of struggle
+ */
+
+import { closestDeep } from './shadow'
+
+export const RAGE_CLICK_COUNT = 3 // Clicks on the same control...
+export const RAGE_CLICK_WINDOW = 1000 // ...each within this many ms of the previous one
+export const FOCUS_CYCLE_COUNT = 3 // Returns to a field...
+export const FOCUS_CYCLE_WINDOW = 3000 // ...each within this many ms of leaving it
+export const BLOCKED_SUBMIT_COUNT = 3 // Submit attempts stopped by validation
+export const SUBMIT_INTENT_WINDOW = 1000 // Invalid events this soon after a submit click block that submit
+export const LONG_IDLE_THRESHOLD = 30000 // Inactivity before returning to the form...
+export const ERROR_BURST_COUNT = 3 // ...then this many validation errors...
+export const ERROR_BURST_WINDOW = 10000 // ...within this many ms of returning
+
+const CONTROL_SELECTOR = 'button, input, select, textarea, [role="button"], [role="link"], a[href]'
+const SUBMIT_SELECTOR = 'button:not([type]), button[type="submit"], input[type="submit"], input[type="image"]'
+
+export type ClickKind = 'submit' | 'disabled'
+
+/**
+ * Find the control a click landed on
+ */
+export function getClickedControl(target: Element): HTMLElement | null {
+  return closestDeep<HTMLElement>(target, CONTROL_SELECTOR)
+}
+
+/**
+ * Check if a control is a form's submit button
+ */
+export function isSubmitControl(control: Element): boolean {
+  return control.matches(SUBMIT_SELECTOR)
+}
+
+/**
+ * Classify a clicked control - disabled controls (dead clicks) win over submit buttons
+ * Returns null for controls whose repeated clicks aren't a signal
+ */
+export function getClickKind(control: Element): ClickKind | null {
+  if (control.matches(':disabled') || control.getAttribute('aria-disabled') === 'true') return 'disabled'
+  if (isSubmitControl(control)) return 'submit'
+  return null
+}
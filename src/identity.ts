@@ -0,0 +1,104 @@
+/**
+ * zForms Identity
+ * Persistent anonymous visitor ID and the (hashed) ID of the logged-in user
+ */
+
+import { generateUUID } from './ids'
+
+interface IdentityRecord {
+  visitor_id: string
+  user_id: string | null
+}
+
+export class IdentityManager {
+  private storageKey: string
+  private persistent: boolean
+  private record: IdentityRecord
+
+  constructor(project: string, persistent: boolean) {
+    this.storageKey = `zForms_identity_${project}`
+    this.persistent = persistent
+    this.record = (persistent && this.read()) || { visitor_id: generateUUID(), user_id: null }
+    if (persistent) this.write()
+  }
+
+  /**
+   * Get the anonymous visitor ID (stable across sessions once storage is allowed)
+   */
+  getVisitorId(): string {
+    return this.record.visitor_id
+  }
+
+  /**
+   * Get the identified user ID, if any
+   */
+  getUserId(): string | null {
+    return this.record.user_id
+  }
+
+  /**
+   * Set the identified user; returns false if it was already set
+   */
+  setUserId(userId: string): boolean {
+    if (this.record.user_id === userId) return false
+
+    this.record.user_id = userId
+    this.write()
+    return true
+  }
+
+  /**
+   * Forget the user and start over as a new anonymous visitor (logout)
+   */
+  reset(): void {
+    this.record = { visitor_id: generateUUID(), user_id: null }
+    this.write()
+  }
+
+  /**
+   * Allow keeping the identity in localStorage - or stop, removing what was stored
+   */
+  setPersistent(persistent: boolean): void {
+    this.persistent = persistent
+
+    if (persistent) {
+      // Keep a visitor ID stored by an earlier page, unless this page already identified a user
+      const stored = this.read()
+      if (stored && (!this.record.user_id || stored.user_id === this.record.user_id)) {
+        this.record = stored
+      }
+      this.write()
+    } else {
+      try {
+        localStorage.removeItem(this.storageKey)
+      } catch {
+        // localStorage unavailable - nothing was stored
+      }
+    }
+  }
+
+  /**
+   * Read the stored identity
+   */
+  private read(): IdentityRecord | null {
+    try {
+      const record = JSON.parse(localStorage.getItem(this.storageKey) || 'null') as IdentityRecord | null
+      return record && typeof record.visitor_id === 'string' ? record : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Store the identity when allowed
+   */
+  private write(): void {
+    if (!this.persistent) return
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.record))
+    } catch {
+      // localStorage unavailable - the identity lasts for this page only
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * zForms Identifiers
+ * Event UUIDs and deterministic form and field IDs derived from page structure
+ */
+
+// Framework-generated IDs that change between renders (React useId, Radix, Headless UI)
+const GENERATED_ID_PATTERN = /^(:r[0-9a-z]+:|«r[0-9a-z]+»|radix-.*|headlessui-.*)$/i
+
+/**
+ * Generate a random UUID v4 (event and batch IDs)
+ */
+export function generateUUID(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+
+  const bytes = new Uint8Array(16)
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(bytes)
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256)
+  }
+
+  bytes[6] = (bytes[6] & 0x0f) | 0x40 // Version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80 // Variant 10
+
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+/**
+ * FNV-1a 32-bit hash, base36 encoded (sync, tiny, stable across browsers)
+ */
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+/**
+ * Check if an id/name attribute is stable enough to use as an identifier
+ */
+export function isStableAttribute(value: string | null): value is string {
+  return !!value && !GENERATED_ID_PATTERN.test(value)
+}
+
+/**
+ * Get the DOM path of an element relative to a root (tag names with sibling position)
+ * Shadow root boundaries are marked with '#shadow'
+ */
+export function getDomPath(element: Element, root: Element): string {
+  const parts: string[] = []
+  let current: Element | null = element
+
+  while (current && current !== root) {
+    const parent: Node | null = current.parentNode
+    const tag = current.tagName.toLowerCase()
+    if (!(parent instanceof Element || parent instanceof ShadowRoot)) {
+      parts.unshift(tag)
+      break
+    }
+
+    const siblings = Array.from(parent.children).filter((child) => child.tagName === current!.tagName)
+    parts.unshift(siblings.length > 1 ? `${tag}:${siblings.indexOf(current)}` : tag)
+
+    if (parent instanceof ShadowRoot) {
+      parts.unshift('#shadow')
+      current = parent.host
+    } else {
+      current = parent
+    }
+  }
+
+  return parts.join('>')
+}
+
+/**
+ * Get visible label text for a field (label[for], wrapping label or aria-label)
+ */
+export function getFieldLabel(field: HTMLElement): string {
+  const labels = (field as HTMLInputElement).labels
+  if (labels && labels.length > 0) {
+    return Array.from(labels)
+      .map((label) => (label.textContent || '').trim())
+      .join(' ')
+  }
+
+  return field.getAttribute('aria-label') || ''
+}
+
+/**
+ * Get the structural signature of a field: type, label and placeholder
+ */
+export function getFieldSignature(field: HTMLElement): string {
+  return [
+    field.tagName.toLowerCase(),
+    field.getAttribute('type') || '',
+    getFieldLabel(field),
+    field.getAttribute('placeholder') || '',
+  ].join('|')
+}
+
+/**
+ * Fingerprint a form's field structure - changes when fields are added, removed, renamed or retyped
+ */
+export function getFormVersion(fields: ArrayLike<HTMLElement>): string {
+  const structure = Array.from(fields)
+    .map((field) => {
+      const name = field.getAttribute('name') || field.id
+      return `${field.tagName.toLowerCase()}:${field.getAttribute('type') || ''}:${name}`
+    })
+    .join(',')
+
+  return hashString(structure)
+}
+
+/**
+ * Get the structural signature of a form: action path and field structure
+ */
+export function getFormSignature(form: HTMLFormElement, fields: ArrayLike<HTMLElement>): string {
+  // Only the action's path - query strings often carry per-visit tokens
+  const action = (form.getAttribute('action') || '').split(/[?#]/)[0]
+  const structure = Array.from(fields)
+    .map((field) => `${field.tagName.toLowerCase()}:${field.getAttribute('type') || ''}:${field.getAttribute('name') || ''}`)
+    .join(',')
+
+  return `${form.getAttribute('method') || ''}|${action}|${structure}`
+}
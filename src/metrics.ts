@@ -0,0 +1,112 @@
+/**
+ * zForms Input Metrics
+ * Privacy-safe typing behaviour per field - counts and timings only, never characters or values
+ */
+
+import type { InputMetrics } from './types'
+import { getEventTarget } from './shadow'
+
+const IDLE_PAUSE_THRESHOLD = 2000 // Gap between inputs that counts as hesitation
+const AUTOFILL_ANIMATION = 'zforms-autofill'
+const AUTOFILL_STYLE_ID = 'zforms-autofill-style'
+
+/**
+ * Create empty metrics for a new focus session
+ */
+export function createInputMetrics(): InputMetrics {
+  return {
+    keystrokes: 0,
+    deletions: 0,
+    pastes: 0,
+    first_input_at: null,
+    last_input_at: null,
+    idle_pauses: 0,
+    longest_pause_ms: 0,
+  }
+}
+
+/**
+ * Record an input event - only its inputType is read, never its data
+ * Returns false for autofill, which is not counted as typing
+ */
+export function recordInput(metrics: InputMetrics, event: Event, now: number): boolean {
+  const inputType = (event as InputEvent).inputType
+
+  // Browsers fire input without an inputType when autofilling
+  if ((!inputType || inputType === 'insertReplacementText') && isAutofilled(getEventTarget(event))) {
+    return false
+  }
+
+  if (inputType && inputType.startsWith('delete')) {
+    metrics.deletions++
+  } else if (inputType === 'insertFromPaste' || inputType === 'insertFromDrop') {
+    metrics.pastes++
+  } else {
+    metrics.keystrokes++
+  }
+
+  if (metrics.last_input_at !== null) {
+    const pause = now - metrics.last_input_at
+    if (pause > IDLE_PAUSE_THRESHOLD) metrics.idle_pauses++
+    metrics.longest_pause_ms = Math.max(metrics.longest_pause_ms, pause)
+  }
+
+  if (metrics.first_input_at === null) metrics.first_input_at = now
+  metrics.last_input_at = now
+  return true
+}
+
+/**
+ * Check the :autofill pseudo-class (prefixed in Chromium/Safari)
+ */
+export function isAutofilled(element: Element | null): boolean {
+  if (!element) return false
+
+  for (const selector of [':autofill', ':-webkit-autofill']) {
+    try {
+      if (element.matches(selector)) return true
+    } catch {
+      // Selector not supported in this browser
+    }
+  }
+  return false
+}
+
+/**
+ * Check if an animationstart event comes from the autofill detector
+ */
+export function isAutofillAnimation(event: Event): boolean {
+  return (event as AnimationEvent).animationName === AUTOFILL_ANIMATION
+}
+
+/**
+ * Inject the animation trick: autofilled inputs start a no-op animation we can listen for
+ */
+export function injectAutofillDetector(): void {
+  if (document.getElementById(AUTOFILL_STYLE_ID)) return
+
+  const style = document.createElement('style')
+  style.id = AUTOFILL_STYLE_ID
+  style.textContent =
+    `@keyframes ${AUTOFILL_ANIMATION} { from {} to {} }` +
+    `input:-webkit-autofill { animation: ${AUTOFILL_ANIMATION} 1ms; }`
+  document.head.appendChild(style)
+}
+
+/**
+ * Summarize metrics for event metadata
+ */
+export function summarizeInputMetrics(metrics: InputMetrics, focusTime: number | null, autofilled: boolean) {
+  return {
+    keystrokes: metrics.keystrokes,
+    deletions: metrics.deletions,
+    pastes: metrics.pastes,
+    autofilled,
+    time_to_first_input_ms:
+      metrics.first_input_at !== null && focusTime !== null
+        ? Math.max(0, metrics.first_input_at - focusTime)
+        : undefined,
+    idle_pauses: metrics.idle_pauses,
+    longest_pause_ms: metrics.longest_pause_ms,
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * zForms Navigation Observer
+ * Detects client-side route changes in single-page apps
+ */
+
+type RouteChangeHandler = (from: string, to: string) => void
+
+/**
+ * Get the current page path (query string excluded for privacy)
+ */
+export function getPagePath(): string {
+  // Keep hash-based routes (#/checkout) but not plain anchors (#section)
+  const hash = location.hash.startsWith('#/') ? location.hash : ''
+  return location.pathname + hash
+}
+
+export class NavigationObserver {
+  private currentPath: string
+  private handler: RouteChangeHandler
+  private originalPushState: History['pushState'] | null = null
+  private originalReplaceState: History['replaceState'] | null = null
+  private patchedPushState: History['pushState'] | null = null
+  private patchedReplaceState: History['replaceState'] | null = null
+  private onPopState = () => this.check()
+  private onNavigateSuccess = () => this.check()
+
+  constructor(handler: RouteChangeHandler) {
+    this.handler = handler
+    this.currentPath = getPagePath()
+
+    this.patchHistory()
+
+    window.addEventListener('popstate', this.onPopState)
+    window.addEventListener('hashchange', this.onPopState)
+
+    // Navigation API (Chromium) also covers router navigations that bypass history
+    const navigation = (window as any).navigation
+    if (navigation && typeof navigation.addEventListener === 'function') {
+      navigation.addEventListener('navigatesuccess', this.onNavigateSuccess)
+    }
+  }
+
+  /**
+   * Get the path of the current route
+   */
+  getPath(): string {
+    return this.currentPath
+  }
+
+  /**
+   * Wrap history.pushState/replaceState so router navigations are observed
+   */
+  private patchHistory(): void {
+    this.originalPushState = history.pushState
+    this.originalReplaceState = history.replaceState
+
+    const originalPushState = this.originalPushState
+    const originalReplaceState = this.originalReplaceState
+    const check = () => this.check()
+
+    this.patchedPushState = function (this: History, ...args) {
+      originalPushState.apply(this, args)
+      check()
+    }
+    this.patchedReplaceState = function (this: History, ...args) {
+      originalReplaceState.apply(this, args)
+      check()
+    }
+
+    history.pushState = this.patchedPushState
+    history.replaceState = this.patchedReplaceState
+  }
+
+  /**
+   * Notify handler if the path changed since last check
+   */
+  private check(): void {
+    const path = getPagePath()
+    if (path === this.currentPath) return
+
+    const from = this.currentPath
+    this.currentPath = path
+    this.handler(from, path)
+  }
+
+  /**
+   * Restore history methods and remove listeners
+   */
+  destroy(): void {
+    // Only restore if nobody wrapped history after us
+    if (this.originalPushState && history.pushState === this.patchedPushState) {
+      history.pushState = this.originalPushState
+    }
+    if (this.originalReplaceState && history.replaceState === this.patchedReplaceState) {
+      history.replaceState = this.originalReplaceState
+    }
+
+    window.removeEventListener('popstate', this.onPopState)
+    window.removeEventListener('hashchange', this.onPopState)
+
+    const navigation = (window as any).navigation
+    if (navigation && typeof navigation.removeEventListener === 'function') {
+      navigation.removeEventListener('navigatesuccess', this.onNavigateSuccess)
+    }
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * zForms Privacy Helpers
+ * Sensitive-field classification and identifier scrubbing
+ */
+
+import { getFieldLabel } from './ids'
+import { closestDeep } from './shadow'
+
+const IGNORE_ATTRIBUTE = 'data-zforms-ignore'
+
+// autocomplete tokens for secrets and payment data
+const SENSITIVE_AUTOCOMPLETE = /^(cc-.*|one-time-code|new-password|current-password|bday.*)$/
+
+// Single words that mark a field as sensitive (matched as whole tokens, so "pin" ≠ "shipping")
+const SENSITIVE_TOKENS = new Set([
+  'ssn',
+  'sin',
+  'cvv',
+  'cvc',
+  'csc',
+  'cvn',
+  'otp',
+  'pin',
+  'iban',
+  'passport',
+  'dob',
+  'tin',
+])
+
+// Multi-word phrases, matched against the space-joined tokens
+const SENSITIVE_PHRASES = [
+  'social security',
+  'card number',
+  'credit card',
+  'card no',
+  'security code',
+  'verification code',
+  'one time',
+  'account number',
+  'routing number',
+  'tax id',
+  'national id',
+  'date of birth',
+  'birth date',
+]
+
+// Identifier scrubbing: emails, UUIDs and long digit runs (customer or order numbers)
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[^\s@]+/g
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi
+const LONG_NUMBER_PATTERN = /\d{6,}/g
+
+/**
+ * Split an identifier into lowercase words (handles camelCase, snake_case, kebab-case)
+ */
+function tokenize(value: string): string[] {
+  return value
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+/**
+ * Check if an element (or its form) opted out with data-zforms-ignore
+ */
+export function isIgnored(element: Element): boolean {
+  return closestDeep(element, `[${IGNORE_ATTRIBUTE}]`) !== null
+}
+
+/**
+ * Check if a field holds sensitive data (payment, government ID, one-time codes, secrets)
+ */
+export function isSensitiveField(element: HTMLElement): boolean {
+  const autocomplete = (element.getAttribute('autocomplete') || '').toLowerCase().split(/\s+/)
+  if (autocomplete.some((token) => SENSITIVE_AUTOCOMPLETE.test(token))) return true
+
+  // Split one-character OTP boxes
+  if (element.getAttribute('inputmode') === 'numeric' && (element as HTMLInputElement).maxLength === 1) {
+    return true
+  }
+
+  const text = [
+    element.id,
+    element.getAttribute('name') || '',
+    element.getAttribute('placeholder') || '',
+    getFieldLabel(element),
+  ].join(' ')
+  const tokens = tokenize(text)
+  const joined = ` ${tokens.join(' ')} `
+
+  return (
+    tokens.some((token) => SENSITIVE_TOKENS.has(token)) ||
+    SENSITIVE_PHRASES.some((phrase) => joined.includes(` ${phrase} `))
+  )
+}
+
+/**
+ * Check a field against the configured deny list (CSS selectors, IDs or names)
+ */
+export function isDenied(element: HTMLElement, denyList: string[]): boolean {
+  return denyList.some((entry) => {
+    if (entry === element.id || entry === element.getAttribute('name')) return true
+    try {
+      return element.matches(entry)
+    } catch {
+      return false // Not a valid selector
+    }
+  })
+}
+
+/**
+ * Remove customer-specific tokens from an identifier
+ */
+export function scrubId(id: string): string {
+  return id
+    .replace(EMAIL_PATTERN, '[email]')
+    .replace(UUID_PATTERN, '[uuid]')
+    .replace(LONG_NUMBER_PATTERN, '[number]')
+}
@@ -3,8 +3,26 @@
  * Batches and sends events to API endpoint
  */
 
-import type { zFormsEvent, EventBatch } from './types'
+import type { zFormsEvent, EventBatch, BatchContext, FlushInfo } from './types'
 import { Storage } from './storage'
+import type { StorageOptions } from './storage'
+import { createTransport } from './transport'
+import { generateUUID } from './ids'
+import { TabCoordinator } from './coordinator'
+import { PLAIN_FORMAT_VERSION, encodeBatch, canCompress, gzip } from './encoding'
+import type { Transport, TransportType, TransportRequest, TransportResponse } from './transport'
+
+const BASE_RETRY_DELAY = 1000 // First retry after ~1s, doubling each failure
+const MAX_RETRY_DELAY = 60000
+const CIRCUIT_FAILURE_THRESHOLD = 5 // Consecutive failures before sending pauses
+const CIRCUIT_COOLDOWN = 5 * 60000
+const DRAIN_INTERVAL = 30000 // Leader re-checks storage for events persisted by other tabs
+
+export interface PayloadOptions {
+  compact?: boolean // Compact wire format
+  compress?: boolean // Gzip when CompressionStream is available
+  getContext?: () => BatchContext // Page and device context added to each batch
+}
 
 export class EventQueue {
   private queue: zFormsEvent[] = []
@@ -16,23 +34,46 @@ export class EventQueue {
   private sendTimer: number | null = null
   private isSending = false
   private debug: boolean
+  private transport: Transport
+  private failureCount = 0 // Consecutive failed sends
+  private retryAt = 0 // No sends before this time (backoff, Retry-After or open circuit)
+  private sequence = 0 // Batch sequence number for this page
+  private coordinator: TabCoordinator
+  private lastDrain = 0
+  private isUnloading = false // No more async work (gzip) once the page is going away
+  private isPurged = false // Consent was revoked - nothing is sent or stored any more
+  private unloadListeners = new AbortController()
+  private payloadOptions: PayloadOptions
+  private onSent: ((info: FlushInfo) => void) | null
 
   constructor(
     apiUrl: string,
     projectKey: string,
     batchSize = 10,
     batchInterval = 5000,
-    debug = false
+    debug = false,
+    transport: TransportType | Transport = 'fetch',
+    storageOptions: StorageOptions = {},
+    payloadOptions: PayloadOptions = {},
+    onSent: ((info: FlushInfo) => void) | null = null
   ) {
     this.apiUrl = apiUrl
     this.projectKey = projectKey
     this.batchSize = batchSize
     this.batchInterval = batchInterval
     this.debug = debug
-    this.storage = new Storage()
-
-    // Load any stored events from previous session
-    this.loadStoredEvents()
+    this.storage = new Storage(projectKey, storageOptions)
+    this.transport = createTransport(transport)
+    this.payloadOptions = payloadOptions
+    this.onSent = onSent
+
+    // Only the leader tab loads stored events from previous sessions and closed tabs
+    this.coordinator = new TabCoordinator(
+      projectKey,
+      () => void this.loadStoredEvents(),
+      () => void this.loadStoredEvents(),
+      debug
+    )
 
     // Start batch timer
     this.startBatchTimer()
@@ -45,6 +86,7 @@ export class EventQueue {
    * Add event to queue
    */
   add(event: zFormsEvent): void {
+    if (this.isPurged) return
     this.queue.push(event)
 
     if (this.debug) {
@@ -60,11 +102,12 @@ export class EventQueue {
   /**
    * Load events from storage (offline persistence)
    */
-  private loadStoredEvents(): void {
-    const stored = this.storage.retrieve()
+  private async loadStoredEvents(): Promise<void> {
+    this.lastDrain = Date.now()
+    const stored = await this.storage.takeAll()
     if (stored.length > 0) {
-      this.queue.push(...stored)
-      this.storage.clear()
+      // Stored events are older than anything tracked since page load
+      this.queue.unshift(...stored)
 
       if (this.debug) {
         console.log(`[zForms] Loaded ${stored.length} stored events`)
@@ -81,6 +124,11 @@ export class EventQueue {
     }
 
     this.sendTimer = window.setInterval(() => {
+      // Pick up events persisted by tabs that closed without notifying us
+      if (this.coordinator.isLeader() && Date.now() - this.lastDrain > DRAIN_INTERVAL) {
+        void this.loadStoredEvents()
+      }
+
       if (this.queue.length > 0) {
         this.send()
       }
@@ -88,97 +136,195 @@ export class EventQueue {
   }
 
   /**
-   * Send events to API
+   * Check if backoff or the circuit breaker allows sending now
    */
-  private async send(): Promise<void> {
-    if (this.isSending || this.queue.length === 0) return
+  private canSend(): boolean {
+    return Date.now() >= this.retryAt
+  }
 
-    this.isSending = true
-    const batch = this.queue.splice(0, this.batchSize)
+  /**
+   * Build a transport request for a batch of events
+   */
+  private buildRequest(events: zFormsEvent[]): { request: TransportRequest; batchId: string; dropped: number } {
+    // Report events lost offline so the server can account for gaps
+    const dropped = this.storage.getDroppedCount()
 
+    const batchId = generateUUID()
     const payload: EventBatch = {
+      version: PLAIN_FORMAT_VERSION,
       project_key: this.projectKey,
-      events: batch,
+      batch_id: batchId,
+      sequence: this.sequence++,
+      events,
+      ...(this.payloadOptions.getContext ? { context: this.payloadOptions.getContext() } : {}),
+      ...(dropped > 0 ? { dropped_events: dropped } : {}),
     }
 
-    try {
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
+    return {
+      request: {
+        url: this.apiUrl,
+        body: encodeBatch(payload, !!this.payloadOptions.compact),
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(payload),
-        keepalive: true, // Important for sendBeacon-like behavior
-      })
+      },
+      batchId,
+      dropped,
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`)
+  /**
+   * Send events to API
+   */
+  private async send(): Promise<void> {
+    if (this.isSending || this.queue.length === 0 || !this.canSend()) return
+
+    this.isSending = true
+    const batch = this.queue.slice(0, this.batchSize)
+
+    try {
+      const { request, batchId, dropped } = this.buildRequest(batch)
+
+      // Gzip is async, so sends while the page is going away (and the unload beacon) stay uncompressed
+      if (this.shouldCompress()) {
+        request.body = await gzip(request.body as string)
+        request.headers['Content-Encoding'] = 'gzip'
       }
 
-      if (this.debug) {
-        console.log(`[zForms] Sent ${batch.length} events`)
+      // Events leave the queue only once the request goes out - the unload beacon may have taken them meanwhile
+      if (!batch.every((event) => this.queue.includes(event))) return
+      this.queue = this.queue.filter((event) => !batch.includes(event))
+
+      const response = await this.transport.send(request)
+
+      if (response.ok) {
+        this.failureCount = 0
+        this.retryAt = 0
+        this.storage.acknowledgeDropped(dropped)
+
+        if (this.debug) {
+          console.log(`[zForms] Sent ${batch.length} events`)
+        }
+        this.onSent?.({ batch_id: batchId, events: batch, beacon: false })
+        return
       }
-    } catch (error) {
-      console.error('[zForms] Failed to send events:', error)
 
-      // Store failed events for retry
-      this.storage.store(batch)
+      // Client errors other than timeout/rate limit will fail again - don't retry them
+      if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+        console.error(`[zForms] Events rejected (HTTP ${response.status}), dropping ${batch.length} events`)
+        return
+      }
 
-      // Re-queue events
-      this.queue.unshift(...batch)
+      this.handleFailure(batch, response)
+    } catch {
+      this.handleFailure(batch, { ok: false, status: 0 })
     } finally {
       this.isSending = false
     }
   }
 
+  /**
+   * Check if the next regular send should be gzipped
+   */
+  private shouldCompress(): boolean {
+    return (
+      !!this.payloadOptions.compress &&
+      this.transport.sendsHeaders !== false &&
+      !this.isUnloading &&
+      document.visibilityState !== 'hidden' &&
+      canCompress()
+    )
+  }
+
+  /**
+   * Re-queue a failed batch and schedule the next attempt
+   * Events stay in memory only - they are persisted once, on page unload
+   */
+  private handleFailure(batch: zFormsEvent[], response: TransportResponse): void {
+    if (this.isPurged) return
+    this.queue.unshift(...batch)
+    this.failureCount++
+
+    let delay: number
+    if (this.failureCount >= CIRCUIT_FAILURE_THRESHOLD) {
+      // Circuit open: pause, then let a single batch probe the server
+      delay = CIRCUIT_COOLDOWN
+    } else {
+      // Exponential backoff with equal jitter
+      const backoff = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** (this.failureCount - 1))
+      delay = backoff / 2 + Math.random() * (backoff / 2)
+    }
+
+    // Honor Retry-After on 429/503
+    if (response.retry_after_ms !== undefined) {
+      delay = Math.max(delay, response.retry_after_ms)
+    }
+
+    this.retryAt = Date.now() + delay
+
+    console.error(
+      `[zForms] Failed to send events (${response.status ? `HTTP ${response.status}` : 'network error'}), ` +
+        `retrying in ${Math.round(delay / 1000)}s`
+    )
+  }
+
   /**
    * Send using sendBeacon for guaranteed delivery on page unload
    */
   private sendBeacon(): void {
     if (this.queue.length === 0) return
 
-    const payload: EventBatch = {
-      project_key: this.projectKey,
-      events: this.queue,
-    }
+    // Take ownership of the queue so events are never both sent and stored
+    const events = this.queue
+    this.queue = []
 
-    const blob = new Blob([JSON.stringify(payload)], {
-      type: 'application/json',
-    })
+    const { request, batchId, dropped } = this.buildRequest(events)
 
-    const sent = navigator.sendBeacon(this.apiUrl, blob)
+    // Server is known to be down - keep events for the next page load instead
+    const sent =
+      this.canSend() &&
+      (this.transport.sendOnUnload
+        ? this.transport.sendOnUnload(request)
+        : navigator.sendBeacon(request.url, new Blob([request.body], { type: 'application/json' })))
 
     if (sent) {
+      this.storage.acknowledgeDropped(dropped)
+
       if (this.debug) {
-        console.log(`[zForms] Sent ${this.queue.length} events via beacon`)
+        console.log(`[zForms] Sent ${events.length} events via beacon`)
       }
-      this.queue = []
+      this.onSent?.({ batch_id: batchId, events, beacon: true })
     } else {
-      // Store for next session
-      this.storage.store(this.queue)
+      // Store for the leader tab (or the next session) to send
+      void this.storage.store(events).then(() => this.coordinator.notifyHandoff())
     }
   }
 
   /**
    * Setup handlers for page unload
+   * Safe to fire in any order: the first handler takes the whole queue, the rest find it empty
    */
   private setupUnloadHandler(): void {
+    const { signal } = this.unloadListeners
+
     // Try sendBeacon first (most reliable)
     window.addEventListener('visibilitychange', () => {
       if (document.visibilityState === 'hidden') {
         this.sendBeacon()
       }
-    })
+    }, { signal })
 
     // Fallback for older browsers
     window.addEventListener('beforeunload', () => {
+      this.isUnloading = true
       this.sendBeacon()
-    })
+    }, { signal })
 
     // Also try on page freeze
     window.addEventListener('pagehide', () => {
+      this.isUnloading = true
       this.sendBeacon()
-    })
+    }, { signal })
   }
 
   /**
@@ -208,6 +354,22 @@ export class EventQueue {
       clearInterval(this.sendTimer)
       this.sendTimer = null
     }
+    this.coordinator.destroy()
     this.flush()
   }
+
+  /**
+   * Stop for good and delete queued and stored events without sending them (consent revoked)
+   */
+  async purge(): Promise<void> {
+    this.isPurged = true
+    this.queue = []
+    if (this.sendTimer) {
+      clearInterval(this.sendTimer)
+      this.sendTimer = null
+    }
+    this.unloadListeners.abort()
+    this.coordinator.destroy()
+    await this.storage.clear()
+  }
 }
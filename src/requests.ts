@@ -0,0 +1,98 @@
+/**
+ * zForms Request Observer
+ * Reports completed fetch/XHR requests so JavaScript form submissions can be matched to their outcome
+ */
+
+type RequestHandler = (url: string, status: number) => void // status 0 = network error
+
+/**
+ * Normalize a URL for matching: absolute origin and path, no query string or fragment
+ */
+export function normalizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url, location.href)
+    return parsed.origin + parsed.pathname
+  } catch {
+    return null
+  }
+}
+
+export class RequestObserver {
+  private handler: RequestHandler
+  private originalFetch: typeof fetch | null = null
+  private patchedFetch: typeof fetch | null = null
+  private originalOpen: XMLHttpRequest['open'] | null = null
+  private patchedOpen: XMLHttpRequest['open'] | null = null
+
+  constructor(handler: RequestHandler) {
+    this.handler = handler
+    this.patchFetch()
+    this.patchXHR()
+  }
+
+  /**
+   * Report a completed request without letting handler errors reach the page
+   */
+  private notify(url: string, status: number): void {
+    try {
+      this.handler(url, status)
+    } catch (error) {
+      console.error('[zForms] Request handler failed:', error)
+    }
+  }
+
+  /**
+   * Wrap window.fetch - the page gets the original promise back untouched
+   */
+  private patchFetch(): void {
+    if (typeof window.fetch !== 'function') return
+
+    const originalFetch = window.fetch
+    const notify = (url: string, status: number) => this.notify(url, status)
+    this.originalFetch = originalFetch
+
+    this.patchedFetch = function (this: unknown, input: RequestInfo | URL, init?: RequestInit) {
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+      const promise = originalFetch.call(this === undefined ? window : this, input, init)
+      promise.then(
+        (response) => notify(url, response.status),
+        () => notify(url, 0)
+      )
+      return promise
+    } as typeof fetch
+
+    window.fetch = this.patchedFetch
+  }
+
+  /**
+   * Wrap XMLHttpRequest.prototype.open to watch each request's loadend
+   */
+  private patchXHR(): void {
+    if (typeof XMLHttpRequest === 'undefined') return
+
+    const originalOpen = XMLHttpRequest.prototype.open
+    const notify = (url: string, status: number) => this.notify(url, status)
+    this.originalOpen = originalOpen
+
+    this.patchedOpen = function (this: XMLHttpRequest, ...args: unknown[]) {
+      const url = String(args[1])
+      this.addEventListener('loadend', () => notify(url, this.status), { once: true })
+      return (originalOpen as (...openArgs: unknown[]) => void).apply(this, args)
+    } as XMLHttpRequest['open']
+
+    XMLHttpRequest.prototype.open = this.patchedOpen
+  }
+
+  /**
+   * Restore fetch and XMLHttpRequest
+   */
+  destroy(): void {
+    // Only restore if nobody wrapped them after us
+    if (this.originalFetch && window.fetch === this.patchedFetch) {
+      window.fetch = this.originalFetch
+    }
+    if (this.originalOpen && XMLHttpRequest.prototype.open === this.patchedOpen) {
+      XMLHttpRequest.prototype.open = this.originalOpen
+    }
+  }
+}
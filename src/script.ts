@@ -3,18 +3,148 @@
  * Privacy-first form analytics with optimized resource usage
  */
 
-import type { zFormsConfig, zFormsEvent, FormFieldState, FormState } from './types'
+import type {
+  zFormsConfig,
+  zFormsEvent,
+  FormFieldState,
+  FormState,
+  FormSummary,
+  ConsentState,
+  ManualEventType,
+  CustomEventType,
+  CustomMetadata,
+  BeforeSendHandler,
+  zFormsEventMap,
+  Experiments,
+  FrustrationReason,
+} from './types'
 import { EventQueue } from './queue'
+import { Emitter } from './emitter'
+import { FrameBridgeHost, FrameBridgeClient } from './bridge'
+import { SessionManager, getCampaign, getReferrer } from './session'
+import { RequestObserver, normalizeUrl } from './requests'
+import { getFormExperiment, readAdapterExperiments } from './experiments'
+import { IdentityManager } from './identity'
+import { ContextCollector } from './context'
+import {
+  RAGE_CLICK_COUNT,
+  RAGE_CLICK_WINDOW,
+  FOCUS_CYCLE_COUNT,
+  FOCUS_CYCLE_WINDOW,
+  BLOCKED_SUBMIT_COUNT,
+  SUBMIT_INTENT_WINDOW,
+  LONG_IDLE_THRESHOLD,
+  ERROR_BURST_COUNT,
+  ERROR_BURST_WINDOW,
+  getClickedControl,
+  getClickKind,
+  isSubmitControl,
+} from './frustration'
+import type { SessionChange } from './session'
+import { ConsentManager, hasPrivacySignal } from './consent'
+import { NavigationObserver, getPagePath } from './navigation'
+import { isAriaInvalid, isNativelyValid, getErrorCategory, getErrorMessage } from './validation'
+import { getCaptureMode, captureValue, sha256 } from './capture'
+import { isIgnored, isSensitiveField, isDenied, scrubId } from './privacy'
+import {
+  ShadowRootObserver,
+  findAllDeep,
+  querySelectorAllDeep,
+  getShadowRoots,
+  closestDeep,
+  containsDeep,
+  isFormAssociated,
+  getGroupScope,
+  getEventTarget,
+} from './shadow'
+import {
+  createInputMetrics,
+  recordInput,
+  isAutofilled,
+  isAutofillAnimation,
+  injectAutofillDetector,
+  summarizeInputMetrics,
+} from './metrics'
+import {
+  generateUUID,
+  hashString,
+  isStableAttribute,
+  getDomPath,
+  getFieldLabel,
+  getFieldSignature,
+  getFormSignature,
+  getFormVersion,
+} from './ids'
+
+const STEP_ATTRIBUTE = 'data-zforms-step'
+const NATIVE_FIELD_SELECTOR = 'input:not([type="hidden"]):not([type="password"]), select, textarea'
+// Custom widgets: contenteditable and ARIA form roles
+const CUSTOM_FIELD_SELECTOR = [
+  '[contenteditable=""]',
+  '[contenteditable="true"]',
+  '[contenteditable="plaintext-only"]',
+  '[role="textbox"]',
+  '[role="searchbox"]',
+  '[role="combobox"]',
+  '[role="listbox"]',
+  '[role="spinbutton"]',
+  '[role="slider"]',
+  '[role="switch"]',
+  '[role="checkbox"]',
+  '[role="radiogroup"]',
+].join(', ')
+const FIELD_SELECTOR = `${NATIVE_FIELD_SELECTOR}, ${CUSTOM_FIELD_SELECTOR}`
+const MAX_PENDING_EVENTS = 500 // In-memory buffer while waiting for consent
+const MANUAL_EVENT_TYPES: ManualEventType[] = [
+  'focus',
+  'blur',
+  'submit',
+  'abandon',
+  'error',
+  'change',
+  'interaction',
+]
+const CUSTOM_EVENT_PATTERN = /^custom:[a-z0-9][a-z0-9_.-]{0,63}$/i
+const MAX_CUSTOM_METADATA_KEYS = 20
+const MAX_CUSTOM_METADATA_LENGTH = 200
+const MAX_STORED_FORM_VERSIONS = 100 // Forms remembered for form_version_change
+const MODAL_SELECTOR = 'dialog, [role="dialog"], [role="alertdialog"], [aria-modal="true"], [data-zforms-modal]'
+const SUBMIT_RESULT_WINDOW = 30000 // How long a cancelled submit waits for a matching request
+const FORM_IDLE_THRESHOLD = 5000 // Longer gaps between interactions count as idle time
+const FORM_ACTIVITY_EVENTS = ['focusin', 'input', 'change', 'keydown', 'pointerdown']
+const TREE_OBSERVER_OPTIONS: MutationObserverInit = { childList: true, subtree: true }
+const ARIA_INVALID_OBSERVER_OPTIONS: MutationObserverInit = {
+  attributes: true,
+  attributeFilter: ['aria-invalid'],
+  subtree: true,
+}
 
 class zForms {
   private config: zFormsConfig
-  private queue: EventQueue
-  private sessionId: string
+  private queue: EventQueue | null = null // Created once consent is granted
+  private consent: ConsentManager
+  private pendingEvents: zFormsEvent[] = [] // Memory-only buffer before consent
+  private emitter = new Emitter<zFormsEventMap>()
+  private beforeSendHandlers: BeforeSendHandler[] = []
+  private experiments: Experiments = {} // setExperiment()
+  private session: SessionManager
+  private sessionId = ''
+  private identity: IdentityManager
+  private context: ContextCollector // Batch-level page and device context
+  private sessionListeners: Array<(change: SessionChange) => void> = []
   private formStates: Map<string, FormState> = new Map()
   private initialized = false
   private mutationObserver: MutationObserver | null = null
+  private navigationObserver: NavigationObserver | null = null
+  private shadowRootObserver: ShadowRootObserver | null = null
+  private visibilityObserver: IntersectionObserver | null = null // Shared by all forms (form_view)
+  private requestObserver: RequestObserver | null = null // track_submit_requests
+  private frameHost: FrameBridgeHost | null = null // Receives events from embedded frames
+  private frameClient: FrameBridgeClient | null = null // Forwards events to the parent page
+  private frameForms: Map<string, FormSummary[]> = new Map() // Latest form summaries per embedded frame
   private submittedForms: Set<string> = new Set() // Track submitted forms atomically
   private isUnloading = false // Track if page is unloading
+  private routeFrame: number | null = null // Re-attach to forms after a route change has rendered
 
   constructor(config: zFormsConfig) {
     this.config = {
@@ -25,19 +155,235 @@ class zForms {
       track_changes: false, // Default to false for better performance
       debounce_time: 300, // 300ms debounce for blur events
       blur_threshold: 100, // 100ms minimum time to track blur (lowered from 500ms)
+      track_navigation: true,
       ...config,
     }
 
-    this.sessionId = this.generateSessionId()
+    // Privacy signals win over everything; otherwise wait for consent if required
+    const privacySignal = !!this.config.respect_dnt && hasPrivacySignal()
+    const consentRequired =
+      !!this.config.consent_required || (this.config.consent_adapters || []).length > 0
+    this.consent = new ConsentManager(
+      privacySignal ? 'denied' : consentRequired ? 'pending' : 'granted',
+      (state) => this.handleConsentChange(state),
+      privacySignal,
+      this.config.debug
+    )
+
+    // No device storage before consent - the session and visitor ID live in memory until granted
+    this.identity = new IdentityManager(this.config.project_key, this.consent.getState() === 'granted')
+    this.context = new ContextCollector(this.config.context_query_params)
+    this.session = new SessionManager(
+      this.config.project_key,
+      this.config.session_timeout,
+      this.consent.getState() === 'granted',
+      (change) => this.handleSessionChange(change)
+    )
+    this.setupFrameBridge()
+
+    if (this.consent.getState() === 'granted') {
+      this.startQueue()
+    }
+
+    // Resume the current session or start one (emits session_start)
+    this.session.touch()
+
+    // CMP adapters may report a stored decision right away
+    this.consent.watch(this.config.consent_adapters)
+
+    this.init()
+  }
+
+  /**
+   * Setup the iframe bridge: accept events from embedded frames, and forward to the parent page
+   */
+  private setupFrameBridge(): void {
+    const origins = this.config.frame_origins || []
+    if (origins.length === 0) return
+
+    this.frameHost = new FrameBridgeHost(
+      this.config.project_key,
+      origins,
+      () => this.sessionId,
+      (events, forms, frameId, origin) => this.handleFrameEvents(events, forms, frameId, origin),
+      this.config.debug
+    )
+
+    if (window.parent === window) return
+
+    this.frameClient = new FrameBridgeClient(
+      this.config.project_key,
+      origins,
+      (sessionId) => {
+        // One session across the page and its frames - the parent reports its start
+        this.session.adopt(sessionId)
+        this.pendingEvents = this.pendingEvents.filter((event) => event.event_type !== 'session_start')
+        this.pendingEvents.forEach((event) => (event.session_id = sessionId))
+        this.releasePendingEvents()
+      },
+      () => {
+        if (this.consent.getState() === 'granted') this.startQueue()
+        this.releasePendingEvents()
+      },
+      this.config.debug
+    )
+  }
+
+  /**
+   * Handle events forwarded by an embedded frame
+   */
+  private handleFrameEvents(
+    events: zFormsEvent[],
+    forms: FormSummary[],
+    frameId: string,
+    origin: string
+  ): void {
+    this.frameForms.set(
+      frameId,
+      forms.map((form) => ({ ...form, frame_origin: form.frame_origin || origin })) // Keep nested frames' origin
+    )
+    events.forEach((event) => this.trackEvent(event)) // Re-stamped with this page's session
+  }
+
+  /**
+   * Create the event queue (touches storage and network - only after consent)
+   */
+  private startQueue(): void {
+    if (this.queue) return
+
+    // Frames hand their events to the parent page instead (until the handshake gives up)
+    if (this.frameClient && this.frameClient.getState() !== 'standalone') return
+
     this.queue = new EventQueue(
       this.config.api_url!,
       this.config.project_key,
       this.config.batch_size,
       this.config.batch_interval,
-      this.config.debug
+      this.config.debug,
+      this.config.transport,
+      {
+        ttl: this.config.storage_ttl,
+        max_bytes: this.config.storage_max_bytes,
+        eviction: this.config.storage_eviction,
+      },
+      {
+        compact: this.config.compact_payload,
+        compress: this.config.compress_payload,
+        getContext: () => this.context.get(),
+      },
+      (info) => this.emitter.emit('flush', info)
     )
+  }
 
-    this.init()
+  /**
+   * Handle consent changes - release or drop buffered events
+   */
+  private handleConsentChange(state: ConsentState): void {
+    if (state === 'granted') {
+      // Session and visitor ID were kept in memory only until now - a live stored session wins
+      // (frames keep the parent's)
+      const provisionalSessionId = this.sessionId
+      this.session.setPersistent(true, this.frameClient?.getState() !== 'connected')
+      this.identity.setPersistent(true)
+
+      if (this.sessionId !== provisionalSessionId) {
+        // The in-memory session never really started
+        this.pendingEvents = this.pendingEvents.filter(
+          (event) => !(event.event_type === 'session_start' && event.session_id === provisionalSessionId)
+        )
+        this.pendingEvents.forEach((event) => {
+          if (event.session_id === provisionalSessionId) event.session_id = this.sessionId
+        })
+      }
+
+      const visitorId = this.identity.getVisitorId() // May be one stored by an earlier visit
+      this.pendingEvents.forEach((event) => (event.visitor_id = visitorId))
+      this.startQueue()
+      this.releasePendingEvents()
+    } else if (state === 'denied') {
+      this.session.setPersistent(false)
+      this.identity.setPersistent(false)
+      this.pendingEvents = []
+
+      try {
+        localStorage.removeItem(this.getFormVersionsKey())
+      } catch {
+        // localStorage unavailable - nothing was stored
+      }
+
+      // Revoked after a grant: nothing already queued or stored offline may be sent
+      if (this.queue) {
+        void this.queue.purge()
+        this.queue = null
+      }
+    }
+  }
+
+  /**
+   * Handle a new or taken-over session - report its start and notify the host app
+   */
+  private handleSessionChange(change: SessionChange): void {
+    this.sessionId = change.session_id
+
+    if (change.started) {
+      this.trackEvent({
+        form_id: '',
+        field_id: '',
+        event_type: 'session_start',
+        session_id: change.session_id,
+        timestamp: new Date(change.started_at).toISOString(),
+        metadata: {
+          landing_page: getPagePath(),
+          referrer: getReferrer(),
+          ...getCampaign(),
+        },
+      })
+    }
+
+    if (this.config.debug) {
+      console.log(`[zForms] Session ${change.reason}:`, change.session_id)
+    }
+
+    this.sessionListeners.forEach((listener) => {
+      try {
+        listener(change)
+      } catch (error) {
+        console.error('[zForms] onSessionChange listener failed:', error)
+      }
+    })
+  }
+
+  /**
+   * Check if events can leave the buffer (a queue, or a connected parent page)
+   */
+  private canDeliver(): boolean {
+    return !!this.queue || this.frameClient?.getState() === 'connected'
+  }
+
+  /**
+   * Deliver an event to the queue, or to the parent page when embedded
+   */
+  private deliver(event: zFormsEvent): void {
+    this.emitter.emit('event', event)
+    if (event.event_type === 'submit') this.emitter.emit('submit', event)
+    if (event.event_type === 'abandon') this.emitter.emit('abandon', event)
+
+    if (this.frameClient?.getState() === 'connected') {
+      this.frameClient.send([event], this.getFormSummaries())
+      return
+    }
+    this.queue?.add(event)
+  }
+
+  /**
+   * Release buffered events once consent is granted and a destination is ready
+   */
+  private releasePendingEvents(): void {
+    if (this.consent.getState() !== 'granted' || !this.canDeliver()) return
+
+    const pending = this.pendingEvents
+    this.pendingEvents = []
+    pending.forEach((event) => this.deliver(event))
   }
 
   /**
@@ -63,42 +409,165 @@ class zForms {
    * Setup tracking for all forms
    */
   private setupTracking(): void {
+    injectAutofillDetector()
     this.attachListeners()
     this.setupDynamicFormTracking()
     this.setupAbandonmentTracking()
+    this.setupNavigationTracking()
+
+    if (this.config.track_submit_requests) {
+      this.requestObserver = new RequestObserver((url, status) => this.handleRequestComplete(url, status))
+    }
   }
 
   /**
-   * Setup tracking for dynamically added forms
+   * Setup tracking for dynamically added and removed forms and fields
    */
   private setupDynamicFormTracking(): void {
-    // Use MutationObserver to detect dynamically added forms
+    // Use MutationObserver to detect dynamically added/removed forms
     this.mutationObserver = new MutationObserver((mutations) => {
+      // Handle removals first so a form re-rendered under the same ID is re-attached
+      let closedForms = false
       for (const mutation of mutations) {
-        if (mutation.type === 'childList' && mutation.addedNodes.length > 0) {
-          mutation.addedNodes.forEach((node) => {
-            if (node instanceof HTMLFormElement) {
-              this.attachFormListeners(node)
-            } else if (node instanceof HTMLElement) {
-              const forms = node.querySelectorAll('form')
-              forms.forEach((form) => this.attachFormListeners(form))
-            }
+        if (mutation.type === 'childList' && mutation.removedNodes.length > 0) {
+          mutation.removedNodes.forEach((node) => {
+            if (this.handleRemovedNode(node, mutation.target)) closedForms = true
           })
         }
       }
+
+      for (const mutation of mutations) {
+        if (mutation.type === 'childList' && mutation.addedNodes.length > 0) {
+          mutation.addedNodes.forEach((node) => this.handleAddedNode(node))
+        }
+      }
+
+      // Send abandon/dismiss events immediately
+      if (closedForms) {
+        this.queue?.flush()
+      }
     })
 
-    this.mutationObserver.observe(document.body, {
-      childList: true,
-      subtree: true,
+    // Open shadow roots are separate trees: observe each one, including roots attached later
+    this.mutationObserver.observe(document.body, TREE_OBSERVER_OPTIONS)
+    getShadowRoots(document.body).forEach((root) => this.mutationObserver?.observe(root, TREE_OBSERVER_OPTIONS))
+    this.shadowRootObserver = new ShadowRootObserver((root) => {
+      this.mutationObserver?.observe(root, TREE_OBSERVER_OPTIONS)
     })
   }
 
   /**
-   * Attach event listeners to all existing forms
+   * Handle a node added to the DOM - new forms, or new fields in a tracked form
+   */
+  private handleAddedNode(node: Node): void {
+    if (node instanceof HTMLFormElement) {
+      this.attachFormListeners(node)
+      return
+    }
+
+    if (!(node instanceof HTMLElement)) return
+
+    // Web components rendered with the node bring their own shadow trees
+    const shadowRoots = getShadowRoots(node)
+    shadowRoots.forEach((root) => this.mutationObserver?.observe(root, TREE_OBSERVER_OPTIONS))
+
+    const forms = querySelectorAllDeep<HTMLFormElement>(node, 'form')
+    forms.forEach((form) => this.attachFormListeners(form))
+
+    // Fields rendered into an already-tracked form (possibly inside a component's shadow root)
+    const form = closestDeep<HTMLFormElement>(node, 'form')
+    const formState = form ? this.getFormStateByElement(form) : null
+    if (!form || !formState) return
+
+    const root = node.getRootNode()
+    if (root instanceof ShadowRoot) shadowRoots.push(root)
+    shadowRoots.forEach((shadowRoot) => formState.aria_observer?.observe(shadowRoot, ARIA_INVALID_OBSERVER_OPTIONS))
+
+    // Most additions are other content (e.g. validation messages) - rescan only when fields can have changed
+    if (!this.touchesFields(node)) return
+
+    // The node can also be content rendered into a field (e.g. an upgraded form-associated element)
+    const fields = this.getTrackableFields(form).filter(
+      (field) => containsDeep(node, field) || containsDeep(field, node)
+    )
+    if (fields.length === 0) return
+
+    fields.forEach((field) => this.attachFieldListeners(form, formState, field))
+    formState.total_fields = formState.field_states.size
+
+    if (this.config.debug) {
+      console.log(`[zForms] Fields added to ${formState.form_id}: now ${formState.total_fields} fields`)
+    }
+  }
+
+  /**
+   * Handle a node removed from the DOM - closes out removed forms and drops removed fields
+   * Returns true if a form session was closed
+   */
+  private handleRemovedNode(node: Node, parent: Node): boolean {
+    if (!(node instanceof HTMLElement)) return false
+
+    // Node was moved rather than removed (re-parented in the same tick)
+    if (node.isConnected) return false
+
+    const forms = node instanceof HTMLFormElement ? [node] : querySelectorAllDeep<HTMLFormElement>(node, 'form')
+    let closedForms = false
+
+    forms.forEach((form) => {
+      const formState = this.getFormStateByElement(form)
+      if (!formState) return
+
+      // Forms inside dialogs are dismissed rather than abandoned
+      const inModal = closestDeep(form, MODAL_SELECTOR) !== null
+      this.abandonForm(formState, inModal ? 'dismiss' : 'abandon')
+      this.releaseForm(formState.form_id)
+      closedForms = true
+    })
+
+    // Fields removed from a form that is still mounted (the parent may be a shadow root)
+    const parentElement = parent instanceof ShadowRoot ? parent.host : parent
+    const form = parentElement instanceof Element ? closestDeep<HTMLFormElement>(parentElement, 'form') : null
+    const formState = form ? this.getFormStateByElement(form) : null
+    if (formState) {
+      formState.field_states.forEach((fieldState, fieldId) => {
+        const isRemoved = (ref: WeakRef<HTMLElement>) => {
+          const element = ref.deref()
+          return !element || containsDeep(node, element)
+        }
+
+        // Radio/checkbox groups live on while any of their inputs remain
+        fieldState.group_elements = fieldState.group_elements.filter((ref) => !isRemoved(ref))
+        if (!isRemoved(fieldState.field_element)) return
+
+        const next = fieldState.group_elements.shift()
+        if (next) {
+          fieldState.field_element = next
+        } else {
+          this.releaseField(fieldState)
+          formState.field_states.delete(fieldId)
+        }
+      })
+      formState.total_fields = formState.field_states.size
+    }
+
+    return closedForms
+  }
+
+  /**
+   * Find the tracked state for a form element
+   */
+  private getFormStateByElement(form: HTMLFormElement): FormState | null {
+    for (const formState of this.formStates.values()) {
+      if (formState.form_element.deref() === form) return formState
+    }
+    return null
+  }
+
+  /**
+   * Attach event listeners to all existing forms (including forms inside open shadow roots)
    */
   private attachListeners(): void {
-    const forms = document.querySelectorAll('form')
+    const forms = querySelectorAllDeep<HTMLFormElement>(document, 'form')
     forms.forEach((form) => this.attachFormListeners(form))
   }
 
@@ -106,15 +575,31 @@ class zForms {
    * Attach listeners to a specific form
    */
   private attachFormListeners(form: HTMLFormElement): void {
+    // Whole form opted out
+    if (isIgnored(form)) return
+
+    // Already tracking this element - its derived ID may have changed since (fields or twins changed)
+    if (this.getFormStateByElement(form)) return
+
     const formId = this.getFormId(form)
 
     // Skip if already tracking this form
-    if (this.formStates.has(formId)) return
+    const existing = this.formStates.get(formId)
+    if (existing) {
+      const existingForm = existing.form_element.deref()
+      if (existingForm && existingForm.isConnected) return
+
+      // Same form re-rendered under the same ID: close out the stale session first
+      this.abandonForm(existing)
+      this.releaseForm(formId)
+    }
 
     // Track all input fields
-    const fields = form.querySelectorAll(
-      'input:not([type="hidden"]):not([type="password"]), select, textarea'
-    )
+    const fields = this.getTrackableFields(form)
+
+    // Resolve declared steps (data-zforms-step on fieldsets/containers or the form itself)
+    const isFormLevelStep = form.hasAttribute(STEP_ATTRIBUTE)
+    const steps = this.getFormSteps(form)
 
     // Initialize form state
     const formState: FormState = {
@@ -123,16 +608,137 @@ class zForms {
       submitted: false,
       last_focused_field: null,
       total_fields: fields.length,
+      steps,
+      current_step: null,
+      step_started_at: null,
+      completed_steps: new Set(),
+      funnel_id: form.getAttribute('data-zforms-funnel'),
+      step_offset: isFormLevelStep
+        ? parseInt(form.getAttribute('data-zforms-step-index') || '0', 10) || 0
+        : null,
+      form_element: new WeakRef(form),
+      page_path: getPagePath(),
+      listeners: new AbortController(),
+      aria_observer: null,
+      tracked_at: performance.now(),
+      viewed_at: null,
+      started_at: null,
+      last_activity_at: null,
+      active_time_ms: 0,
+      submit_attempts: 0,
+      pending_submit: null,
+      awaiting_result_since: null,
+      experiments: getFormExperiment(form, formId),
+      form_version: getFormVersion(fields),
+      click_burst: null,
+      submit_clicked_at: null,
+      blocked_submits: 0,
+      resumed_at: null,
+      idle_ms: 0,
+      errors_since_resume: 0,
     }
 
     this.formStates.set(formId, formState)
 
-    fields.forEach((field, index) => {
-      const fieldId = this.getFieldId(field as HTMLElement)
-      const element = field as HTMLElement
+    fields.forEach((field) => this.attachFieldListeners(form, formState, field))
+    formState.total_fields = formState.field_states.size
+
+    // Report when the form's fields changed since earlier visits
+    this.checkFormVersion(formState)
+
+    // Submit event
+    form.addEventListener('submit', (event) => {
+      this.handleSubmitAttempt(formState, event)
+    }, { signal: formState.listeners.signal })
+
+    // Any interaction inside the form counts as active time
+    FORM_ACTIVITY_EVENTS.forEach((type) => {
+      form.addEventListener(type, () => this.recordFormActivity(formState), {
+        signal: formState.listeners.signal,
+        capture: true,
+      })
+    })
+
+    // Rage and dead clicks - pointerdown, because disabled controls never receive click
+    form.addEventListener('pointerdown', (event) => this.handleFormPointerDown(formState, event), {
+      signal: formState.listeners.signal,
+      capture: true,
+    })
+
+    // A submit click followed by invalid events (instead of a submit event) was blocked by validation
+    form.addEventListener('click', (event) => {
+      const target = getEventTarget(event)
+      const control = target ? getClickedControl(target) : null
+      if (control && isSubmitControl(control)) {
+        formState.submit_clicked_at = performance.now()
+      }
+    }, { signal: formState.listeners.signal, capture: true })
+
+    // aria-invalid - errors from JS validation libraries on novalidate forms
+    this.observeAriaInvalid(form, formState)
+
+    // form_view once the form is on screen
+    this.observeVisibility(form, formState)
+
+    // First step is visible as soon as the form is tracked
+    if (steps.length > 0) {
+      this.enterStep(formState, steps[0])
+    }
+
+    if (this.config.debug) {
+      console.log(`[zForms] Tracking form: ${formId} with ${formState.total_fields} fields`)
+
+      // IDs derived from DOM position change whenever the layout does
+      const unstable = Array.from(fields)
+        .filter((field) => !this.hasStableFieldId(field))
+        .map((field) => this.getFieldId(field, form))
+      if (unstable.length > 0) {
+        console.warn(
+          `[zForms] ${unstable.length} field(s) in ${formId} have unstable IDs ` +
+            '(add id, name or data-field-id, or configure id_resolver):',
+          unstable
+        )
+      }
+    }
+  }
 
+  /**
+   * Attach listeners to a single field and initialize its state
+   */
+  private attachFieldListeners(
+    form: HTMLFormElement,
+    formState: FormState,
+    element: HTMLElement,
+    fieldIdOverride?: string
+  ): void {
+    // Skip fields that are already tracked (e.g. moved within the form)
+    if (this.getFieldStateByElement(formState, element, false)) return
+
+    const formId = formState.form_id
+    const sensitive = isSensitiveField(element)
+
+    // Sensitive fields' id/name often carry customer tokens - use a positional ID instead
+    const fieldId =
+      fieldIdOverride ||
+      (sensitive ? `sensitive_${hashString(getDomPath(element, form))}` : this.getFieldId(element, form))
+
+    // Another input of an already-tracked radio/checkbox group joins that logical field
+    const existing = formState.field_states.get(fieldId)
+    const groupName = this.getGroupName(element, form)
+    let fieldState: FormFieldState
+
+    const existingElement = existing?.field_element.deref()
+    const isSameGroup =
+      groupName !== null &&
+      groupName === this.getGroupName(existingElement, form) &&
+      existingElement?.getRootNode() === element.getRootNode()
+
+    if (existing && isSameGroup) {
+      existing.group_elements.push(new WeakRef(element))
+      fieldState = existing
+    } else {
       // Initialize field state with WeakRef to prevent memory leaks
-      formState.field_states.set(fieldId, {
+      fieldState = {
         field_id: fieldId,
         focus_time: null,
         last_event: null,
@@ -141,112 +747,714 @@ class zForms {
         has_value: this.hasFieldValue(element),
         validation_errors: 0,
         field_element: new WeakRef(element),
+        group_elements: [],
+        position: formState.field_states.size,
         blur_debounce_timer: null,
-      })
-
-      // Focus event - now tracks interaction count
-      field.addEventListener('focus', () => {
-        this.handleFocus(formId, fieldId, index)
-      })
+        step_id: this.getFieldStep(form, element, formState.steps),
+        listeners: new AbortController(),
+        error_started_at: null,
+        error_category: null,
+        input_metrics: createInputMetrics(),
+        autofilled: isAutofilled(element),
+        sensitive,
+        last_blur_at: null,
+        focus_cycles: 0,
+      }
+      formState.field_states.set(fieldId, fieldState)
+    }
 
-      // Blur event - debounced
-      field.addEventListener('blur', () => {
-        this.handleBlur(formId, fieldId, index)
-      })
+    const { signal } = fieldState.listeners
 
-      // Change event - optional, tracks field completion
-      if (this.config.track_changes) {
-        field.addEventListener('change', () => {
-          this.handleChange(formId, fieldId)
-        })
-      }
+    // Custom widgets take focus on inner elements too - focusin/focusout bubble from them
+    const isNative = element.matches(NATIVE_FIELD_SELECTOR)
 
-      // Error event - tracks validation issues
-      field.addEventListener('invalid', () => {
-        this.handleError(formId, fieldId)
-      })
-    })
+    // Focus event - now tracks interaction count
+    element.addEventListener(isNative ? 'focus' : 'focusin', () => {
+      this.handleFocus(formId, fieldId)
+    }, { signal })
 
-    // Submit event
-    form.addEventListener('submit', () => {
-      this.handleSubmit(formId)
-    })
+    // Blur event - debounced
+    element.addEventListener(isNative ? 'blur' : 'focusout', (event) => {
+      this.handleBlur(formId, fieldId, event as FocusEvent)
+    }, { signal })
 
-    if (this.config.debug) {
-      console.log(`[zForms] Tracking form: ${formId} with ${fields.length} fields`)
+    // Change event - optional, tracks field completion
+    if (this.config.track_changes) {
+      element.addEventListener('change', () => {
+        this.handleChange(formId, fieldId)
+      }, { signal })
     }
+
+    // Error event - tracks validation issues
+    element.addEventListener('invalid', () => {
+      this.handleError(formId, fieldId)
+    }, { signal })
+
+    // Input - typing metrics and native validation error correction
+    element.addEventListener('input', (event) => {
+      this.handleInput(formId, fieldId, event)
+    }, { signal })
+
+    // Autofill detection - autofilled inputs start the detector's animation
+    element.addEventListener('animationstart', (event) => {
+      const fieldState = formState.field_states.get(fieldId)
+      if (fieldState && isAutofillAnimation(event)) {
+        fieldState.autofilled = true
+      }
+    }, { signal })
   }
 
   /**
-   * Check if field has a value
+   * Get the fields of a form that may be tracked
    */
-  private hasFieldValue(element: HTMLElement): boolean {
-    if (element instanceof HTMLInputElement) {
-      return element.value.trim().length > 0
-    } else if (element instanceof HTMLSelectElement) {
-      return element.value.trim().length > 0
-    } else if (element instanceof HTMLTextAreaElement) {
-      return element.value.trim().length > 0
+  private getTrackableFields(form: HTMLFormElement): HTMLElement[] {
+    // Fields inside web components' shadow roots, and form-associated custom elements
+    const fields = findAllDeep(form, (element) => this.isFieldElement(element))
+      .filter((field) => closestDeep(field, 'form') === form) // Not a nested form's field
+      .filter((field) => this.shouldTrackField(field))
+
+    // Inputs inside a custom widget (e.g. a combobox's inner input) belong to the widget
+    return fields.filter((field) => !fields.some((other) => other !== field && containsDeep(other, field)))
+  }
+
+  /**
+   * Check if an added node is, contains or sits inside a field (up to its form)
+   */
+  private touchesFields(node: HTMLElement): boolean {
+    let current: Element | null = node
+    while (current && !(current instanceof HTMLFormElement)) {
+      if (this.isFieldElement(current)) return true
+
+      if (current.parentElement) {
+        current = current.parentElement
+      } else {
+        const root = current.getRootNode()
+        current = root instanceof ShadowRoot ? root.host : null
+      }
     }
-    return false
+
+    return findAllDeep(node, (element) => this.isFieldElement(element)).length > 0
   }
 
   /**
-   * Handle focus event - tracks interaction count and updates last focused field
+   * Check if an element is a field (native, custom widget or form-associated element)
    */
-  private handleFocus(formId: string, fieldId: string, fieldPosition: number): void {
-    const formState = this.formStates.get(formId)
-    if (!formState) return
+  private isFieldElement(element: Element): boolean {
+    return element.matches(FIELD_SELECTOR) || isFormAssociated(element)
+  }
 
-    const fieldState = formState.field_states.get(fieldId)
-    if (!fieldState) return
+  /**
+   * Get the group a radio/checkbox belongs to (radios by name; checkboxes when several share a name)
+   */
+  private getGroupName(element: HTMLElement | undefined, form: HTMLFormElement): string | null {
+    if (!(element instanceof HTMLInputElement) || !element.name) return null
+    if (element.type === 'radio') return element.name
+    if (element.type !== 'checkbox') return null
 
-    // Update interaction count
-    fieldState.interaction_count++
-    fieldState.focus_time = Date.now()
-    fieldState.last_event = 'focus'
+    const sameName = getGroupScope(element).querySelectorAll(
+      `input[type="checkbox"][name="${CSS.escape(element.name)}"]`
+    )
+    return sameName.length > 1 ? element.name : null
+  }
 
-    // Update form's last focused field for accurate abandonment tracking
-    formState.last_focused_field = fieldId
+  /**
+   * Check a field against data-zforms-ignore, the deny list and the sensitive-field policy
+   */
+  private shouldTrackField(field: HTMLElement): boolean {
+    if (isIgnored(field)) return false
+    if (isDenied(field, this.config.deny_fields || [])) return false
+    if (this.config.sensitive_fields === 'skip' && isSensitiveField(field)) return false
+    return true
+  }
 
-    // Track ALL interactions (not just first) for accurate analytics
-    this.trackEvent({
-      form_id: formId,
-      field_id: fieldId,
-      event_type: 'interaction',
-      session_id: this.sessionId,
-      timestamp: new Date().toISOString(),
-      metadata: {
-        field_position: fieldPosition,
-        total_fields: formState.total_fields,
-        interaction_count: fieldState.interaction_count,
-        is_revisit: fieldState.interaction_count > 1,
-      },
+  /**
+   * Watch aria-invalid on a form's fields (set by React Hook Form, Zod, Yup resolvers, etc.)
+   */
+  private observeAriaInvalid(form: HTMLFormElement, formState: FormState): void {
+    const observer = new MutationObserver((mutations) => {
+      for (const mutation of mutations) {
+        const target = mutation.target as HTMLElement
+        const fieldState = this.getFieldStateByElement(formState, target)
+        if (!fieldState) continue
+
+        if (isAriaInvalid(target)) {
+          // Re-renders often set aria-invalid="true" again - only count new errors
+          if (!fieldState.error_started_at) {
+            this.handleError(formState.form_id, fieldState.field_id)
+          }
+        } else if (fieldState.error_started_at) {
+          this.handleErrorResolved(formState.form_id, fieldState.field_id)
+        }
+      }
     })
 
-    if (this.config.debug && fieldState.interaction_count > 1) {
-      console.log(
-        `[zForms] Field re-visited (${fieldState.interaction_count}x): ${fieldId}`
-      )
-    }
+    observer.observe(form, ARIA_INVALID_OBSERVER_OPTIONS)
+    getShadowRoots(form).forEach((root) => observer.observe(root, ARIA_INVALID_OBSERVER_OPTIONS))
+    formState.aria_observer = observer
+
+    formState.listeners.signal.addEventListener('abort', () => observer.disconnect())
   }
 
   /**
-   * Handle blur event with debouncing - reduces resource usage
+   * Compare a form's field structure with the one seen on earlier visits (needs storage, so consent)
    */
-  private handleBlur(formId: string, fieldId: string, fieldPosition: number): void {
-    const formState = this.formStates.get(formId)
-    if (!formState) return
+  private checkFormVersion(formState: FormState): void {
+    if (this.consent.getState() !== 'granted') return
 
-    const fieldState = formState.field_states.get(fieldId)
-    if (!fieldState || !fieldState.focus_time) return
+    const key = this.getFormVersionsKey()
+    try {
+      const versions: Record<string, string> = JSON.parse(localStorage.getItem(key) || '{}')
+      const previous = versions[formState.form_id]
+      if (previous === formState.form_version) return
 
-    // Clear existing debounce timer
-    if (fieldState.blur_debounce_timer) {
-      clearTimeout(fieldState.blur_debounce_timer)
+      if (previous) {
+        this.trackEvent({
+          form_id: formState.form_id,
+          field_id: '__form__',
+          event_type: 'form_version_change',
+          session_id: this.sessionId,
+          timestamp: new Date().toISOString(),
+          metadata: {
+            previous_form_version: previous,
+            total_fields: formState.total_fields,
+          },
+        })
+      }
+
+      // Re-insert so the most recently seen forms are kept
+      delete versions[formState.form_id]
+      versions[formState.form_id] = formState.form_version
+      const ids = Object.keys(versions)
+      ids.slice(0, Math.max(0, ids.length - MAX_STORED_FORM_VERSIONS)).forEach((id) => delete versions[id])
+
+      localStorage.setItem(key, JSON.stringify(versions))
+    } catch {
+      // localStorage unavailable or corrupt - skip detection
     }
+  }
 
-    // Debounce blur event to avoid tracking rapid focus/blur switches
+  /**
+   * localStorage key of the form versions seen on earlier visits
+   */
+  private getFormVersionsKey(): string {
+    return `zForms_form_versions_${this.config.project_key}`
+  }
+
+  /**
+   * Watch when a form first becomes visible (half of it, or half the viewport for tall forms)
+   */
+  private observeVisibility(form: HTMLFormElement, formState: FormState): void {
+    if (typeof IntersectionObserver === 'undefined') {
+      // No way to tell - treat the form as visible once tracked
+      this.handleFormView(formState)
+      return
+    }
+
+    if (!this.visibilityObserver) {
+      this.visibilityObserver = new IntersectionObserver(
+        (entries) => {
+          entries.forEach((entry) => {
+            const visible =
+              entry.isIntersecting &&
+              (entry.intersectionRatio >= 0.5 || entry.intersectionRect.height >= window.innerHeight * 0.5)
+            if (!visible) return
+
+            const viewed = this.getFormStateByElement(entry.target as HTMLFormElement)
+            if (viewed) this.handleFormView(viewed)
+            this.visibilityObserver?.unobserve(entry.target)
+          })
+        },
+        { threshold: [0, 0.25, 0.5, 0.75, 1] }
+      )
+    }
+
+    this.visibilityObserver.observe(form)
+    formState.listeners.signal.addEventListener('abort', () => this.visibilityObserver?.unobserve(form))
+  }
+
+  /**
+   * Find the field an element belongs to (the field itself, a wrapper around it, or part of a widget)
+   */
+  private getFieldStateByElement(
+    formState: FormState,
+    element: Element,
+    includeWrappers = true
+  ): FormFieldState | null {
+    for (const fieldState of formState.field_states.values()) {
+      for (const ref of [fieldState.field_element, ...fieldState.group_elements]) {
+        const fieldElement = ref.deref()
+        if (!fieldElement) continue
+        if (fieldElement === element) return fieldState
+        if (includeWrappers && (containsDeep(element, fieldElement) || containsDeep(fieldElement, element))) {
+          return fieldState
+        }
+      }
+    }
+    return null
+  }
+
+  /**
+   * Get ordered step IDs declared with data-zforms-step
+   */
+  private getFormSteps(form: HTMLFormElement): string[] {
+    // Route-based funnels: the whole form is a single step
+    const formStep = form.getAttribute(STEP_ATTRIBUTE)
+    if (formStep !== null) {
+      return [formStep || 'step_0']
+    }
+
+    const steps: string[] = []
+    querySelectorAllDeep(form, `[${STEP_ATTRIBUTE}]`).forEach((element, index) => {
+      const stepId = element.getAttribute(STEP_ATTRIBUTE) || `step_${index}`
+      if (!steps.includes(stepId)) steps.push(stepId)
+    })
+    return steps
+  }
+
+  /**
+   * Get the step a field belongs to (closest data-zforms-step container)
+   */
+  private getFieldStep(form: HTMLFormElement, field: HTMLElement, steps: string[]): string | null {
+    if (steps.length === 0) return null
+    if (form.hasAttribute(STEP_ATTRIBUTE)) return steps[0]
+
+    const container = closestDeep(field, `[${STEP_ATTRIBUTE}]`)
+    if (!container || !containsDeep(form, container)) return null
+
+    const index = querySelectorAllDeep(form, `[${STEP_ATTRIBUTE}]`).indexOf(container as HTMLElement)
+    return container.getAttribute(STEP_ATTRIBUTE) || `step_${index}`
+  }
+
+  /**
+   * Build step metadata for an event
+   */
+  private getStepMetadata(formState: FormState, stepId: string | null): zFormsEvent['metadata'] {
+    if (!stepId) return {}
+
+    return {
+      step_id: stepId,
+      step_index:
+        formState.step_offset !== null ? formState.step_offset : formState.steps.indexOf(stepId),
+      // Route-based steps only know their own position, not the funnel length
+      total_steps: formState.step_offset !== null ? undefined : formState.steps.length,
+      funnel_id: formState.funnel_id || undefined,
+    }
+  }
+
+  /**
+   * Make a step current and track its view
+   */
+  private enterStep(formState: FormState, stepId: string): void {
+    formState.current_step = stepId
+    formState.step_started_at = Date.now()
+
+    this.trackEvent({
+      form_id: formState.form_id,
+      field_id: '__form__',
+      event_type: 'step_view',
+      session_id: this.sessionId,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        ...this.getStepMetadata(formState, stepId),
+        total_fields: formState.total_fields,
+      },
+    })
+  }
+
+  /**
+   * Mark the current step as complete and track time spent on it
+   */
+  private completeStep(formState: FormState): void {
+    const stepId = formState.current_step
+    if (!stepId || formState.completed_steps.has(stepId)) return
+
+    formState.completed_steps.add(stepId)
+
+    let stepFields = 0
+    let completedFields = 0
+    let totalInteractions = 0
+    let fieldsWithErrors = 0
+
+    formState.field_states.forEach((fieldState) => {
+      if (fieldState.step_id !== stepId) return
+      stepFields++
+      if (fieldState.has_value) completedFields++
+      totalInteractions += fieldState.interaction_count
+      if (fieldState.validation_errors > 0) fieldsWithErrors++
+    })
+
+    this.trackEvent({
+      form_id: formState.form_id,
+      field_id: '__form__',
+      event_type: 'step_complete',
+      time_spent_ms: formState.step_started_at ? Date.now() - formState.step_started_at : undefined,
+      session_id: this.sessionId,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        ...this.getStepMetadata(formState, stepId),
+        total_fields: stepFields,
+        completed_fields: completedFields,
+        interaction_count: totalInteractions,
+        validation_errors: fieldsWithErrors,
+      },
+    })
+
+    if (this.config.debug) {
+      console.log(`[zForms] Step completed: ${formState.form_id} / ${stepId}`)
+    }
+  }
+
+  /**
+   * Move a form to another step, completing the current one when moving forward
+   */
+  private transitionStep(formState: FormState, stepId: string): void {
+    if (formState.current_step === stepId) return
+
+    const currentIndex = formState.current_step ? formState.steps.indexOf(formState.current_step) : -1
+    if (formState.steps.indexOf(stepId) > currentIndex) {
+      this.completeStep(formState)
+    }
+
+    this.enterStep(formState, stepId)
+  }
+
+  /**
+   * Check if field has a value
+   */
+  private hasFieldValue(element: HTMLElement): boolean {
+    if (element instanceof HTMLInputElement && (element.type === 'radio' || element.type === 'checkbox')) {
+      // A group has a value when any of its inputs is checked
+      if (element.name) {
+        return getGroupScope(element).querySelector(`input[name="${CSS.escape(element.name)}"]:checked`) !== null
+      }
+      return element.checked
+    } else if (element instanceof HTMLInputElement) {
+      return element.value.trim().length > 0
+    } else if (element instanceof HTMLSelectElement) {
+      return element.value.trim().length > 0
+    } else if (element instanceof HTMLTextAreaElement) {
+      return element.value.trim().length > 0
+    }
+
+    // Form-associated custom elements usually expose a value property
+    const value = (element as { value?: unknown }).value
+    if (isFormAssociated(element) && typeof value === 'string') {
+      return value.trim().length > 0
+    }
+
+    // Custom widgets
+    const role = element.getAttribute('role')
+    if (role === 'checkbox' || role === 'switch') {
+      return element.getAttribute('aria-checked') === 'true'
+    }
+    if (role === 'slider' || role === 'spinbutton') {
+      return element.hasAttribute('aria-valuenow')
+    }
+    if (role === 'radiogroup' || role === 'listbox') {
+      return element.querySelector('input:checked, [aria-checked="true"], [aria-selected="true"]') !== null
+    }
+
+    // contenteditable, textbox, combobox: an inner input's value or the text content
+    const input = element.querySelector('input') ?? element.shadowRoot?.querySelector('input')
+    return ((input ? input.value : element.textContent) || '').trim().length > 0
+  }
+
+  /**
+   * Handle focus event - tracks interaction count and updates last focused field
+   */
+  private handleFocus(formId: string, fieldId: string): void {
+    const formState = this.formStates.get(formId)
+    if (!formState) return
+
+    const fieldState = formState.field_states.get(fieldId)
+    if (!fieldState) return
+
+    // Also counts quick returns that the blur debounce below merges into one interaction
+    this.recordFocusCycle(formState, fieldState)
+
+    // Focus came back (or moved within a radio group or widget) before the debounced blur fired:
+    // the same interaction continues
+    if (fieldState.blur_debounce_timer) {
+      clearTimeout(fieldState.blur_debounce_timer)
+      fieldState.blur_debounce_timer = null
+      formState.last_focused_field = fieldId
+      return
+    }
+
+    // First field focus starts the form
+    if (formState.started_at === null) {
+      this.handleFormStart(formState, fieldId)
+    }
+
+    // Update interaction count
+    fieldState.interaction_count++
+    fieldState.focus_time = Date.now()
+    fieldState.last_event = 'focus'
+    fieldState.input_metrics = createInputMetrics()
+
+    // Update form's last focused field for accurate abandonment tracking
+    formState.last_focused_field = fieldId
+
+    // Focusing a field in another step means that step is now visible
+    if (fieldState.step_id && formState.step_offset === null) {
+      this.transitionStep(formState, fieldState.step_id)
+    }
+
+    // Track ALL interactions (not just first) for accurate analytics
+    this.trackEvent({
+      form_id: formId,
+      field_id: fieldId,
+      event_type: 'interaction',
+      session_id: this.sessionId,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        ...this.getStepMetadata(formState, fieldState.step_id),
+        field_position: fieldState.position,
+        total_fields: formState.total_fields,
+        interaction_count: fieldState.interaction_count,
+        is_revisit: fieldState.interaction_count > 1,
+      },
+    })
+
+    if (this.config.debug && fieldState.interaction_count > 1) {
+      console.log(
+        `[zForms] Field re-visited (${fieldState.interaction_count}x): ${fieldId}`
+      )
+    }
+  }
+
+  /**
+   * Count a return to a field soon after leaving it - leaving and coming straight back,
+   * again and again, is a sign of struggle
+   */
+  private recordFocusCycle(formState: FormState, fieldState: FormFieldState): void {
+    const lastBlurAt = fieldState.last_blur_at
+    if (lastBlurAt === null) return // First focus, or focus moving within a group or widget
+    fieldState.last_blur_at = null
+
+    if (Date.now() - lastBlurAt >= FOCUS_CYCLE_WINDOW) {
+      fieldState.focus_cycles = 0
+      return
+    }
+
+    fieldState.focus_cycles++
+    if (fieldState.focus_cycles === FOCUS_CYCLE_COUNT) {
+      this.trackFrustration(formState, fieldState.field_id, 'focus_cycling', {
+        repeat_count: fieldState.focus_cycles,
+        interaction_count: fieldState.interaction_count,
+      })
+    }
+  }
+
+  /**
+   * Handle a form becoming visible
+   */
+  private handleFormView(formState: FormState): void {
+    if (formState.viewed_at !== null) return
+    formState.viewed_at = performance.now()
+
+    this.trackEvent({
+      form_id: formState.form_id,
+      field_id: '__form__',
+      event_type: 'form_view',
+      session_id: this.sessionId,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        total_fields: formState.total_fields,
+        ...this.getStepMetadata(formState, formState.current_step),
+      },
+    })
+  }
+
+  /**
+   * Handle the first field focus of a form
+   */
+  private handleFormStart(formState: FormState, fieldId: string): void {
+    const now = performance.now()
+    formState.started_at = now
+    formState.last_activity_at = now
+
+    this.trackEvent({
+      form_id: formState.form_id,
+      field_id: fieldId,
+      event_type: 'form_start',
+      session_id: this.sessionId,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        total_fields: formState.total_fields,
+        time_to_first_interaction_ms: this.getTimeToFirstInteraction(formState),
+      },
+    })
+  }
+
+  /**
+   * Accumulate active time - gaps longer than FORM_IDLE_THRESHOLD count as idle
+   */
+  private recordFormActivity(formState: FormState): void {
+    if (formState.started_at === null || formState.last_activity_at === null) return
+
+    const now = performance.now()
+    const gap = now - formState.last_activity_at
+    formState.active_time_ms += Math.min(gap, FORM_IDLE_THRESHOLD)
+    formState.last_activity_at = now
+
+    // Coming back after a long pause - watch for a burst of errors
+    if (gap > LONG_IDLE_THRESHOLD) {
+      formState.resumed_at = now
+      formState.idle_ms = gap
+      formState.errors_since_resume = 0
+    }
+  }
+
+  /**
+   * Detect rapid repeated clicks on a submit button (rage) or a disabled control (dead)
+   */
+  private handleFormPointerDown(formState: FormState, event: Event): void {
+    const target = getEventTarget(event)
+    const control = target ? getClickedControl(target) : null
+    const kind = control ? getClickKind(control) : null
+    if (!control || !kind) {
+      formState.click_burst = null
+      return
+    }
+
+    const now = performance.now()
+    const burst = formState.click_burst
+    if (burst && burst.control.deref() === control && now - burst.last_at < RAGE_CLICK_WINDOW) {
+      burst.count++
+      burst.last_at = now
+    } else {
+      formState.click_burst = { control: new WeakRef(control), count: 1, last_at: now }
+    }
+
+    const { count } = formState.click_burst!
+    if (count !== RAGE_CLICK_COUNT) return
+
+    // A disabled field reports under its own ID, buttons under the form
+    if (kind === 'disabled') {
+      const fieldState = this.getFieldStateByElement(formState, control)
+      this.trackFrustration(formState, fieldState?.field_id || '__form__', 'dead_click', { repeat_count: count })
+    } else {
+      this.trackFrustration(formState, '__form__', 'rage_click', { repeat_count: count })
+    }
+  }
+
+  /**
+   * Count a submit attempt stopped by validation
+   */
+  private recordBlockedSubmit(formState: FormState): void {
+    formState.submit_clicked_at = null
+    formState.blocked_submits++
+
+    if (formState.blocked_submits === BLOCKED_SUBMIT_COUNT) {
+      this.trackFrustration(formState, '__form__', 'blocked_submit', {
+        repeat_count: formState.blocked_submits,
+        submit_attempts: formState.submit_attempts,
+      })
+    }
+  }
+
+  /**
+   * Track a frustration signal
+   */
+  private trackFrustration(
+    formState: FormState,
+    fieldId: string,
+    reason: FrustrationReason,
+    metadata: zFormsEvent['metadata']
+  ): void {
+    this.trackEvent({
+      form_id: formState.form_id,
+      field_id: fieldId,
+      event_type: 'frustration',
+      session_id: this.sessionId,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        frustration_reason: reason,
+        ...metadata,
+      },
+    })
+
+    if (this.config.debug) {
+      console.log(`[zForms] Frustration (${reason}): ${formState.form_id} / ${fieldId}`)
+    }
+  }
+
+  /**
+   * Time from the form becoming visible (or being tracked) to its first field focus
+   */
+  private getTimeToFirstInteraction(formState: FormState): number | undefined {
+    if (formState.started_at === null) return undefined
+    return Math.round(Math.max(0, formState.started_at - (formState.viewed_at ?? formState.tracked_at)))
+  }
+
+  /**
+   * Build completion timing metadata for submit/abandon (monotonic clock - immune to clock changes)
+   */
+  private getFormTimingMetadata(formState: FormState): zFormsEvent['metadata'] {
+    if (formState.started_at === null || formState.last_activity_at === null) return {}
+
+    const now = performance.now()
+    const elapsed = now - formState.started_at
+    const active = Math.min(
+      elapsed,
+      formState.active_time_ms + Math.min(now - formState.last_activity_at, FORM_IDLE_THRESHOLD)
+    )
+
+    return {
+      time_to_first_interaction_ms: this.getTimeToFirstInteraction(formState),
+      completion_time_ms: Math.round(elapsed),
+      active_time_ms: Math.round(active),
+      idle_time_ms: Math.round(elapsed - active),
+    }
+  }
+
+  /**
+   * Handle input event - records counts and timings, never the value
+   */
+  private handleInput(formId: string, fieldId: string, event: Event): void {
+    const fieldState = this.formStates.get(formId)?.field_states.get(fieldId)
+    if (!fieldState) return
+
+    if (!recordInput(fieldState.input_metrics, event, Date.now())) {
+      fieldState.autofilled = true
+    }
+
+    const element = fieldState.field_element.deref()
+    if (fieldState.error_started_at && element && !isAriaInvalid(element) && isNativelyValid(element)) {
+      this.handleErrorResolved(formId, fieldId)
+    }
+  }
+
+  /**
+   * Handle blur event with debouncing - reduces resource usage
+   */
+  private handleBlur(formId: string, fieldId: string, event: FocusEvent): void {
+    const formState = this.formStates.get(formId)
+    if (!formState) return
+
+    const fieldState = formState.field_states.get(fieldId)
+    if (!fieldState || !fieldState.focus_time) return
+
+    // Clear existing debounce timer
+    if (fieldState.blur_debounce_timer) {
+      clearTimeout(fieldState.blur_debounce_timer)
+    }
+
+    // Focus left the field (not just moved to another radio of the group or inside the widget)
+    const next = event.relatedTarget instanceof Element ? event.relatedTarget : null
+    if (!next || this.getFieldStateByElement(formState, next) !== fieldState) {
+      fieldState.last_blur_at = Date.now()
+    }
+
+    // Snapshot typing metrics now - a refocus during the debounce resets them
+    const inputSummary = summarizeInputMetrics(
+      fieldState.input_metrics,
+      fieldState.focus_time,
+      fieldState.autofilled
+    )
+
+    // Debounce blur event to avoid tracking rapid focus/blur switches
     fieldState.blur_debounce_timer = window.setTimeout(() => {
       const timeSpent = Date.now() - fieldState.focus_time!
       fieldState.total_time_spent += timeSpent
@@ -263,7 +1471,7 @@ class zForms {
       // Only track blur if minimum time was spent (configurable, default 100ms)
       const blurThreshold = this.config.blur_threshold || 100
       if (timeSpent > blurThreshold) {
-        this.trackEvent({
+        const event: zFormsEvent = {
           form_id: formId,
           field_id: fieldId,
           event_type: 'blur',
@@ -274,10 +1482,25 @@ class zForms {
             interaction_count: fieldState.interaction_count,
             field_completed: fieldState.has_value,
             validation_errors: fieldState.validation_errors,
-            field_position: fieldPosition,
+            field_position: fieldState.position,
             total_fields: formState.total_fields,
+            ...inputSummary,
           },
-        })
+        }
+
+        // Opt-in value derivative (data-zforms-capture) - hashing is async
+        const captureMode = element && !fieldState.sensitive ? getCaptureMode(element) : null
+        if (element && captureMode) {
+          captureValue(element, captureMode, this.config.capture_salt || this.config.project_key)
+            .catch(() => undefined)
+            .then((value) => {
+              event.metadata!.capture_mode = captureMode
+              event.metadata!.captured_value = value
+              this.trackEvent(event)
+            })
+        } else {
+          this.trackEvent(event)
+        }
       }
     }, this.config.debounce_time)
   }
@@ -311,257 +1534,855 @@ class zForms {
         })
       }
     }
-  }
+  }
+
+  /**
+   * Handle a submit event - whether it was cancelled is only known once every listener has run
+   */
+  private handleSubmitAttempt(formState: FormState, event: Event): void {
+    formState.submit_attempts++
+    formState.pending_submit = event
+    formState.submit_clicked_at = null // The submit went through native validation
+
+    // Listeners registered after ours (e.g. React's root listener) may still call preventDefault
+    setTimeout(() => this.resolveSubmitAttempt(formState, event), 0)
+  }
+
+  /**
+   * Report a submit attempt - native submissions count as successful, cancelled ones await a result
+   */
+  private resolveSubmitAttempt(formState: FormState, event: Event): void {
+    // Already resolved (the page started unloading first)
+    if (formState.pending_submit !== event) return
+    formState.pending_submit = null
+
+    this.trackEvent({
+      form_id: formState.form_id,
+      field_id: '__form__',
+      event_type: 'submit_attempt',
+      session_id: this.sessionId,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        submit_attempts: formState.submit_attempts,
+        default_prevented: event.defaultPrevented,
+      },
+    })
+
+    if (event.defaultPrevented) {
+      if (Array.from(formState.field_states.values()).some((field) => field.error_started_at !== null)) {
+        // Stopped by client-side validation
+        formState.awaiting_result_since = null
+        this.recordBlockedSubmit(formState)
+      } else {
+        // Submitted with JavaScript - the page reports the result, or just moves on
+        formState.awaiting_result_since = performance.now()
+      }
+    } else {
+      // The browser navigates to the form's action
+      this.handleSubmit(formState.form_id)
+    }
+  }
+
+  /**
+   * Handle a failed submission - the form stays open, so leaving afterwards counts as abandonment
+   */
+  private handleSubmitError(formState: FormState, code?: string | number): void {
+    formState.awaiting_result_since = null
+
+    this.trackEvent({
+      form_id: formState.form_id,
+      field_id: '__form__',
+      event_type: 'submit_error',
+      session_id: this.sessionId,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        submit_attempts: formState.submit_attempts,
+        error_code: code,
+      },
+    })
+
+    if (this.config.debug) {
+      console.log(`[zForms] Form submission failed: ${formState.form_id}`, code ?? '')
+    }
+  }
+
+  /**
+   * Match a completed fetch/XHR request to a cancelled submit of a form with that action
+   */
+  private handleRequestComplete(url: string, status: number): void {
+    const target = normalizeUrl(url)
+    if (!target) return
+
+    this.formStates.forEach((formState) => {
+      if (formState.awaiting_result_since === null) return
+      if (performance.now() - formState.awaiting_result_since > SUBMIT_RESULT_WINDOW) return
+
+      // Only forms with an explicit action - the default (the page URL) matches too much
+      const form = formState.form_element.deref()
+      if (!form || !form.getAttribute('action') || normalizeUrl(form.action) !== target) return
+
+      if (status >= 200 && status < 400) {
+        this.handleSubmit(formState.form_id)
+      } else {
+        this.handleSubmitError(formState, status || 'network_error')
+      }
+    })
+  }
+
+  /**
+   * Handle a successful form submission - with atomic tracking to prevent false abandonment
+   */
+  private async handleSubmit(formId: string, outcome?: 'pending'): Promise<void> {
+    // CRITICAL: Mark form as submitted BEFORE any async operations
+    this.submittedForms.add(formId)
+
+    const formState = this.formStates.get(formId)
+    if (formState) {
+      formState.submitted = true
+      formState.awaiting_result_since = null
+
+      // Submitting completes the final step
+      this.completeStep(formState)
+    }
+
+    // Calculate completion metrics
+    let completedFields = 0
+    let totalInteractions = 0
+    let totalTimeSpent = 0
+
+    if (formState) {
+      formState.field_states.forEach((field) => {
+        if (field.has_value) completedFields++
+        totalInteractions += field.interaction_count
+        totalTimeSpent += field.total_time_spent
+      })
+    }
+
+    this.trackEvent({
+      form_id: formId,
+      field_id: '__form__',
+      event_type: 'submit',
+      time_spent_ms: totalTimeSpent,
+      session_id: this.sessionId,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        total_fields: formState?.total_fields || 0,
+        field_completed: completedFields === (formState?.total_fields || 0),
+        interaction_count: totalInteractions,
+        completed_fields: completedFields,
+        submit_attempts: formState?.submit_attempts,
+        submit_outcome: outcome,
+        ...(formState ? this.getFormTimingMetadata(formState) : {}),
+        ...(formState && formState.steps.length > 0
+          ? {
+              ...this.getStepMetadata(formState, formState.current_step),
+              completed_steps: formState.completed_steps.size,
+            }
+          : {}),
+      },
+    })
+
+    // Force send immediately with beacon for guaranteed delivery
+    await this.queue?.flushAsync()
+
+    if (this.config.debug) {
+      console.log(`[zForms] Form submitted: ${formId} (${completedFields}/${formState?.total_fields || 0} fields)`)
+    }
+  }
+
+  /**
+   * Handle field validation error
+   */
+  private handleError(formId: string, fieldId: string): void {
+    const formState = this.formStates.get(formId)
+    if (!formState) return
+
+    const fieldState = formState.field_states.get(fieldId)
+    const element = fieldState?.field_element.deref()
+    const category = element ? getErrorCategory(element) : 'unknown'
+
+    if (fieldState) {
+      fieldState.validation_errors++
+
+      // Start the correction clock on the first error
+      if (!fieldState.error_started_at) {
+        fieldState.error_started_at = Date.now()
+        fieldState.error_category = category
+      }
+    }
+
+    this.trackEvent({
+      form_id: formId,
+      field_id: fieldId,
+      event_type: 'error',
+      session_id: this.sessionId,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        validation_errors: fieldState?.validation_errors || 1,
+        error_category: category,
+        error_message:
+          element && !fieldState?.sensitive && this.canCaptureErrorMessage(fieldId, element)
+            ? getErrorMessage(element)
+            : undefined,
+      },
+    })
+
+    const now = performance.now()
+
+    // Native validation stopped a submit click (invalid fires for each invalid field - count once)
+    if (formState.submit_clicked_at !== null && now - formState.submit_clicked_at < SUBMIT_INTENT_WINDOW) {
+      this.recordBlockedSubmit(formState)
+    }
+
+    // Errors piling up right after a long pause
+    if (formState.resumed_at !== null && now - formState.resumed_at < ERROR_BURST_WINDOW) {
+      formState.errors_since_resume++
+      if (formState.errors_since_resume === ERROR_BURST_COUNT) {
+        this.trackFrustration(formState, fieldId, 'error_burst', {
+          repeat_count: formState.errors_since_resume,
+          idle_ms: Math.round(formState.idle_ms),
+        })
+      }
+    }
+  }
+
+  /**
+   * Handle a validation error being corrected - tracks how long the fix took
+   */
+  private handleErrorResolved(formId: string, fieldId: string): void {
+    const fieldState = this.formStates.get(formId)?.field_states.get(fieldId)
+    if (!fieldState || !fieldState.error_started_at) return
+
+    const correctionTime = Date.now() - fieldState.error_started_at
+    const category = fieldState.error_category || 'unknown'
+    fieldState.error_started_at = null
+    fieldState.error_category = null
+
+    this.trackEvent({
+      form_id: formId,
+      field_id: fieldId,
+      event_type: 'error_resolved',
+      session_id: this.sessionId,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        validation_errors: fieldState.validation_errors,
+        error_category: category,
+        correction_time_ms: correctionTime,
+      },
+    })
+  }
+
+  /**
+   * Check if a field's error text may be sent (config allow-list or data-zforms-error-messages)
+   */
+  private canCaptureErrorMessage(fieldId: string, element: HTMLElement): boolean {
+    const allowed = this.config.capture_error_messages || []
+    return (
+      allowed.includes('*') ||
+      allowed.includes(fieldId) ||
+      closestDeep(element, '[data-zforms-error-messages]') !== null
+    )
+  }
+
+  /**
+   * Setup accurate abandonment tracking - ONLY on actual page unload
+   */
+  private setupAbandonmentTracking(): void {
+    // CRITICAL FIX: Only track abandonment on ACTUAL page unload, not visibility changes
+    // Visibility changes happen when user switches tabs (not abandonment!)
+
+    // beforeunload and pagehide usually both fire - only the first one tracks abandonment
+    const handleUnload = () => {
+      if (this.isUnloading) return
+      this.isUnloading = true
+      this.trackAbandonment()
+    }
+
+    // Page restored from the back/forward cache - it can be left again
+    const handlePageShow = (event: PageTransitionEvent) => {
+      if (event.persisted) {
+        this.isUnloading = false
+      }
+    }
+
+    // Use beforeunload and pagehide for actual page exits
+    window.addEventListener('beforeunload', handleUnload)
+    window.addEventListener('pagehide', handleUnload)
+    window.addEventListener('pageshow', handlePageShow)
+
+    // NOTE: We deliberately do NOT use visibilitychange here to avoid
+    // false abandonment when user switches tabs to copy/paste information
+  }
+
+  /**
+   * Setup abandonment tracking for client-side navigation (SPA route changes)
+   */
+  private setupNavigationTracking(): void {
+    if (!this.config.track_navigation) return
+
+    this.navigationObserver = new NavigationObserver((from, to) => {
+      this.handleRouteChange(from, to)
+    })
+  }
+
+  /**
+   * Handle SPA route change - forms from the previous route are closed out
+   */
+  private handleRouteChange(from: string, to: string): void {
+    if (this.config.debug) {
+      console.log(`[zForms] Route changed: ${from} -> ${to}`)
+    }
+
+    // Leaving a route counts as leaving its forms, like a page unload
+    Array.from(this.formStates.values()).forEach((formState) => {
+      if (formState.page_path === to) return
+      this.abandonForm(formState)
+      this.releaseForm(formState.form_id)
+    })
+
+    // Forms that stay mounted across routes (layouts) start a fresh session on the new route.
+    // Wait for the render - routers push history first, while the old route's forms are still mounted
+    // (forms mounted by the new route are picked up by the MutationObserver)
+    if (this.routeFrame !== null) cancelAnimationFrame(this.routeFrame)
+    this.routeFrame = requestAnimationFrame(() => {
+      this.routeFrame = null
+      this.attachListeners()
+    })
+
+    // Send abandonment events immediately
+    this.queue?.flush()
+  }
+
+  /**
+   * Track form abandonment with specific field information
+   * CRITICAL: Uses atomic submittedForms Set to prevent race conditions
+   */
+  private trackAbandonment(): void {
+    this.formStates.forEach((formState) => this.abandonForm(formState))
+
+    // Send abandonment events immediately
+    this.queue?.flush()
+  }
+
+  /**
+   * Track abandonment for a single form (no-op if submitted or never started)
+   */
+  private abandonForm(formState: FormState, eventType: 'abandon' | 'dismiss' = 'abandon'): void {
+    const formId = formState.form_id
+
+    // A submit whose listeners just ran - a native submission is what unloads the page
+    if (formState.pending_submit) {
+      this.resolveSubmitAttempt(formState, formState.pending_submit)
+    }
+
+    // CRITICAL: Check atomic submittedForms Set first (prevents race condition)
+    if (this.submittedForms.has(formId)) {
+      if (this.config.debug) {
+        console.log(`[zForms] Skipping abandonment for submitted form: ${formId}`)
+      }
+      return
+    }
 
-  /**
-   * Handle form submission - with atomic tracking to prevent false abandonment
-   */
-  private async handleSubmit(formId: string): Promise<void> {
-    // CRITICAL: Mark form as submitted BEFORE any async operations
-    this.submittedForms.add(formId)
+    // Double-check formState.submitted as fallback
+    if (formState.submitted) return
 
-    const formState = this.formStates.get(formId)
-    if (formState) {
-      formState.submitted = true
+    // A route-level step (data-zforms-step on the form) the visitor finished - the next route continues the funnel
+    if (
+      formState.step_offset !== null &&
+      formState.current_step !== null &&
+      formState.completed_steps.has(formState.current_step)
+    ) {
+      return
     }
 
-    // Calculate completion metrics
+    // A JavaScript submit without a reported result - SPAs navigate away or unmount the form on success,
+    // so only leaving after a submit_error counts as abandonment
+    if (formState.awaiting_result_since !== null) {
+      void this.handleSubmit(formId, 'pending')
+      return
+    }
+
+    // Skip if no fields were interacted with (user never started the form)
+    if (!formState.last_focused_field) return
+
+    // Calculate progress metrics
     let completedFields = 0
+    let totalTimeSpent = 0
     let totalInteractions = 0
+    let fieldsWithErrors = 0
 
-    if (formState) {
-      formState.field_states.forEach((field) => {
-        if (field.has_value) completedFields++
-        totalInteractions += field.interaction_count
-      })
+    formState.field_states.forEach((fieldState) => {
+      if (fieldState.has_value) completedFields++
+      totalTimeSpent += fieldState.total_time_spent
+      totalInteractions += fieldState.interaction_count
+      if (fieldState.validation_errors > 0) fieldsWithErrors++
+    })
+
+    // Find the position of the last focused field
+    let abandonmentPosition = 0
+    let currentIndex = 0
+    for (const [fieldId] of formState.field_states) {
+      if (fieldId === formState.last_focused_field) {
+        abandonmentPosition = currentIndex
+        break
+      }
+      currentIndex++
     }
 
     this.trackEvent({
       form_id: formId,
-      field_id: '__form__',
-      event_type: 'submit',
+      field_id: formState.last_focused_field,
+      event_type: eventType,
+      time_spent_ms: totalTimeSpent,
       session_id: this.sessionId,
       timestamp: new Date().toISOString(),
+      page_path: formState.page_path,
       metadata: {
-        total_fields: formState?.total_fields || 0,
-        field_completed: completedFields === (formState?.total_fields || 0),
+        abandonment_field: formState.last_focused_field,
+        field_position: abandonmentPosition,
+        total_fields: formState.total_fields,
+        field_completed: completedFields === formState.total_fields,
         interaction_count: totalInteractions,
-        completed_fields: completedFields,
+        validation_errors: fieldsWithErrors,
+        submit_attempts: formState.submit_attempts || undefined, // Failed or cancelled submits
+        ...this.getFormTimingMetadata(formState),
+        // Per-step drop-off: which step the user left on
+        ...(formState.steps.length > 0
+          ? {
+              ...this.getStepMetadata(formState, formState.current_step),
+              completed_steps: formState.completed_steps.size,
+            }
+          : {}),
       },
     })
 
-    // Force send immediately with beacon for guaranteed delivery
-    await this.queue.flushAsync()
-
     if (this.config.debug) {
-      console.log(`[zForms] Form submitted: ${formId} (${completedFields}/${formState?.total_fields || 0} fields)`)
+      console.log(
+        `[zForms] Form ${eventType === 'dismiss' ? 'dismissed' : 'abandoned'} at field: ${formState.last_focused_field} ` +
+          `(${completedFields}/${formState.total_fields} fields completed)`
+      )
     }
   }
 
   /**
-   * Handle field validation error
+   * Stop tracking a form: clear timers, detach listeners and drop its state
    */
-  private handleError(formId: string, fieldId: string): void {
+  private releaseForm(formId: string): void {
     const formState = this.formStates.get(formId)
     if (!formState) return
 
-    const fieldState = formState.field_states.get(fieldId)
-    if (fieldState) {
-      fieldState.validation_errors++
-    }
+    formState.field_states.forEach((fieldState) => this.releaseField(fieldState))
 
-    this.trackEvent({
-      form_id: formId,
-      field_id: fieldId,
-      event_type: 'error',
-      session_id: this.sessionId,
-      timestamp: new Date().toISOString(),
-      metadata: {
-        validation_errors: fieldState?.validation_errors || 1,
-      },
-    })
+    formState.listeners.abort()
+    this.formStates.delete(formId)
+    this.submittedForms.delete(formId)
   }
 
   /**
-   * Setup accurate abandonment tracking - ONLY on actual page unload
+   * Clear a field's pending timers and detach its listeners
    */
-  private setupAbandonmentTracking(): void {
-    // CRITICAL FIX: Only track abandonment on ACTUAL page unload, not visibility changes
-    // Visibility changes happen when user switches tabs (not abandonment!)
+  private releaseField(fieldState: FormFieldState): void {
+    if (fieldState.blur_debounce_timer) {
+      clearTimeout(fieldState.blur_debounce_timer)
+      fieldState.blur_debounce_timer = null
+    }
+    fieldState.listeners.abort()
+  }
 
-    const handleBeforeUnload = () => {
-      this.isUnloading = true
-      this.trackAbandonment()
+  /**
+   * Track an event
+   */
+  private trackEvent(event: zFormsEvent): void {
+    // Unique ID lets the server drop duplicates from retries and unload handlers
+    if (!event.event_id) {
+      event.event_id = generateUUID()
     }
 
-    const handlePageHide = () => {
-      this.isUnloading = true
-      this.trackAbandonment()
+    // Stamp the route so the same form ID on different pages can be told apart
+    if (!event.page_path) {
+      event.page_path = this.navigationObserver ? this.navigationObserver.getPath() : getPagePath()
     }
 
-    // Use beforeunload and pagehide for actual page exits
-    window.addEventListener('beforeunload', handleBeforeUnload)
-    window.addEventListener('pagehide', handlePageHide)
+    // Variants from testing tools, then setExperiment(), then the form's own declaration
+    // (events forwarded by frames keep theirs)
+    const formState = this.formStates.get(event.form_id)
+    const experiments = {
+      ...readAdapterExperiments(this.config.experiment_adapters || []),
+      ...this.experiments,
+      ...formState?.experiments,
+      ...event.experiments,
+    }
+    if (Object.keys(experiments).length > 0) {
+      event.experiments = experiments
+    }
+    if (formState && !event.form_version) {
+      event.form_version = formState.form_version
+    }
 
-    // NOTE: We deliberately do NOT use visibilitychange here to avoid
-    // false abandonment when user switches tabs to copy/paste information
+    // Inactivity, midnight or a new campaign start a new session (frames use the parent's)
+    if (this.frameClient?.getState() !== 'connected') {
+      this.session.touch()
+    }
+    event.session_id = this.sessionId
+    event.visitor_id = this.identity.getVisitorId()
+    event.user_id = event.user_id || this.identity.getUserId() || undefined
+
+    const consent = this.consent.getState()
+    if (consent === 'denied') return
+
+    // Integrator pipeline - enrich, redact or drop the event (config hook first, then beforeSend())
+    const handlers = this.config.before_send
+      ? [this.config.before_send, ...this.beforeSendHandlers]
+      : this.beforeSendHandlers
+    for (const handler of handlers) {
+      try {
+        const result = handler(event)
+        if (!result) return
+        event = result
+      } catch (error) {
+        // Never send an event the hook failed to redact
+        console.error('[zForms] before_send failed, dropping event:', error)
+        return
+      }
+    }
+
+    // Buffer in memory only (never in Storage) until consent is granted and a destination is ready
+    if (consent === 'pending' || !this.canDeliver()) {
+      if (this.pendingEvents.length < MAX_PENDING_EVENTS) {
+        this.pendingEvents.push(event)
+      }
+      return
+    }
+
+    this.deliver(event)
   }
 
   /**
-   * Track form abandonment with specific field information
-   * CRITICAL: Uses atomic submittedForms Set to prevent race conditions
+   * Get form identifier - deterministic across page loads
    */
-  private trackAbandonment(): void {
-    this.formStates.forEach((formState, formId) => {
-      // CRITICAL: Check atomic submittedForms Set first (prevents race condition)
-      if (this.submittedForms.has(formId)) {
-        if (this.config.debug) {
-          console.log(`[zForms] Skipping abandonment for submitted form: ${formId}`)
-        }
-        return
-      }
+  private getFormId(form: HTMLFormElement): string {
+    const resolved = this.resolveId(form, 'form')
+    if (resolved) return resolved
+
+    const explicit = [form.id, form.getAttribute('name'), form.getAttribute('data-form-id')].find(
+      isStableAttribute
+    )
+    if (explicit) return scrubId(explicit)
 
-      // Double-check formState.submitted as fallback
-      if (formState.submitted) return
+    // Structural hash, disambiguated by position among structurally identical forms
+    const signature = getFormSignature(form, querySelectorAllDeep(form, FIELD_SELECTOR))
+    const twins = querySelectorAllDeep<HTMLFormElement>(document, 'form').filter(
+      (other) => getFormSignature(other, querySelectorAllDeep(other, FIELD_SELECTOR)) === signature
+    )
+    const hash = hashString(signature)
+    return twins.length > 1 ? `form_${hash}_${twins.indexOf(form)}` : `form_${hash}`
+  }
 
-      // Skip if no fields were interacted with (user never started the form)
-      if (!formState.last_focused_field) return
+  /**
+   * Get field identifier - deterministic across page loads
+   */
+  private getFieldId(field: HTMLElement, form: HTMLFormElement): string {
+    const resolved = this.resolveId(field, 'field')
+    if (resolved) return resolved
 
-      // Calculate progress metrics
-      let completedFields = 0
-      let totalTimeSpent = 0
-      let totalInteractions = 0
-      let fieldsWithErrors = 0
+    // Radio/checkbox groups are one logical field, named after the group
+    const groupName = this.getGroupName(field, form)
+    if (groupName && isStableAttribute(groupName)) return scrubId(groupName)
 
-      formState.field_states.forEach((fieldState) => {
-        if (fieldState.has_value) completedFields++
-        totalTimeSpent += fieldState.total_time_spent
-        totalInteractions += fieldState.interaction_count
-        if (fieldState.validation_errors > 0) fieldsWithErrors++
-      })
+    const explicit = [field.id, field.getAttribute('name'), field.getAttribute('data-field-id')].find(
+      isStableAttribute
+    )
+    if (explicit) return scrubId(explicit)
 
-      // Find the position of the last focused field
-      let abandonmentPosition = 0
-      let currentIndex = 0
-      for (const [fieldId] of formState.field_states) {
-        if (fieldId === formState.last_focused_field) {
-          abandonmentPosition = currentIndex
-          break
-        }
-        currentIndex++
-      }
+    // Structural hash of type, label and placeholder; identical fields fall back to DOM path
+    const signature = getFieldSignature(field)
+    const twins = querySelectorAllDeep(form, FIELD_SELECTOR).filter(
+      (other) => getFieldSignature(other) === signature
+    )
+    return twins.length > 1
+      ? `field_${hashString(`${signature}|${getDomPath(field, form)}`)}`
+      : `field_${hashString(signature)}`
+  }
 
-      this.trackEvent({
-        form_id: formId,
-        field_id: formState.last_focused_field,
-        event_type: 'abandon',
-        time_spent_ms: totalTimeSpent,
-        session_id: this.sessionId,
-        timestamp: new Date().toISOString(),
-        metadata: {
-          abandonment_field: formState.last_focused_field,
-          field_position: abandonmentPosition,
-          total_fields: formState.total_fields,
-          field_completed: completedFields === formState.total_fields,
-          interaction_count: totalInteractions,
-          validation_errors: fieldsWithErrors,
-        },
+  /**
+   * Check if a field's ID survives layout changes (explicit attribute, resolver, label or placeholder)
+   */
+  private hasStableFieldId(field: HTMLElement): boolean {
+    if (this.resolveId(field, 'field')) return true
+    if ([field.id, field.getAttribute('name'), field.getAttribute('data-field-id')].some(isStableAttribute)) {
+      return true
+    }
+    return getFieldLabel(field) !== '' || field.hasAttribute('placeholder')
+  }
+
+  /**
+   * Ask the configured id_resolver for an ID
+   */
+  private resolveId(element: HTMLElement, kind: 'form' | 'field'): string | null {
+    if (!this.config.id_resolver) return null
+
+    try {
+      return this.config.id_resolver(element, kind) || null
+    } catch (error) {
+      console.error('[zForms] id_resolver failed:', error)
+      return null
+    }
+  }
+
+  /**
+   * Keep only primitive metadata values, within size limits
+   */
+  private toCustomMetadata(metadata: CustomMetadata): CustomMetadata {
+    const custom: CustomMetadata = {}
+
+    Object.keys(metadata)
+      .slice(0, MAX_CUSTOM_METADATA_KEYS)
+      .forEach((key) => {
+        const value = metadata[key]
+        if (typeof value === 'string') {
+          custom[key] = value.slice(0, MAX_CUSTOM_METADATA_LENGTH)
+        } else if (value === null || typeof value === 'boolean' || Number.isFinite(value)) {
+          custom[key] = value
+        }
       })
 
-      if (this.config.debug) {
-        console.log(
-          `[zForms] Form abandoned at field: ${formState.last_focused_field} ` +
-            `(${completedFields}/${formState.total_fields} fields completed)`
-        )
-      }
+    return custom
+  }
+
+  /**
+   * Public API: Manually track a built-in or custom ('custom:<name>') event
+   */
+  public track(
+    formId: string,
+    fieldId: string,
+    eventType: ManualEventType | CustomEventType,
+    metadata?: CustomMetadata
+  ): void {
+    const isValid = eventType.startsWith('custom:')
+      ? CUSTOM_EVENT_PATTERN.test(eventType)
+      : MANUAL_EVENT_TYPES.includes(eventType as ManualEventType)
+    if (!isValid) {
+      console.warn('[zForms] Invalid event type:', eventType)
+      return
+    }
+
+    this.trackEvent({
+      form_id: formId,
+      field_id: fieldId,
+      event_type: eventType,
+      session_id: this.sessionId,
+      timestamp: new Date().toISOString(),
+      ...(metadata ? { metadata: { custom: this.toCustomMetadata(metadata) } } : {}),
     })
+  }
 
-    // Send abandonment events immediately
-    this.queue.flush()
+  /**
+   * Public API: Listen to tracked events ('event', 'submit', 'abandon') or sent batches ('flush')
+   */
+  public on<K extends keyof zFormsEventMap>(name: K, handler: (payload: zFormsEventMap[K]) => void): void {
+    this.emitter.on(name, handler)
   }
 
   /**
-   * Track an event
+   * Public API: Remove a listener (or all listeners of that name)
    */
-  private trackEvent(event: zFormsEvent): void {
-    this.queue.add(event)
+  public off<K extends keyof zFormsEventMap>(name: K, handler?: (payload: zFormsEventMap[K]) => void): void {
+    this.emitter.off(name, handler)
   }
 
   /**
-   * Get form identifier
+   * Public API: Add a step to the beforeSend pipeline - return the (enriched) event, or null/false to drop it
+   * Returns a function that removes the step
    */
-  private getFormId(form: HTMLFormElement): string {
-    return (
-      form.id ||
-      form.getAttribute('name') ||
-      form.getAttribute('data-form-id') ||
-      `form_${Array.from(document.querySelectorAll('form')).indexOf(form)}`
-    )
+  public beforeSend(handler: BeforeSendHandler): () => void {
+    this.beforeSendHandlers.push(handler)
+    return () => {
+      this.beforeSendHandlers = this.beforeSendHandlers.filter((other) => other !== handler)
+    }
   }
 
   /**
-   * Get field identifier
+   * Public API: Visitor granted consent - buffered events are released
    */
-  private getFieldId(field: HTMLElement): string {
-    return (
-      field.id ||
-      field.getAttribute('name') ||
-      field.getAttribute('data-field-id') ||
-      `field_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    )
+  public grantConsent(): void {
+    this.consent.set('granted')
   }
 
   /**
-   * Generate unique session ID
+   * Public API: Visitor denied consent - buffered events are dropped
    */
-  private generateSessionId(): string {
-    // Try to reuse session ID from sessionStorage
-    const stored = sessionStorage.getItem('zForms_session_id')
-    if (stored) return stored
+  public denyConsent(): void {
+    this.consent.set('denied')
+  }
 
-    // Generate new session ID
-    const sessionId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    sessionStorage.setItem('zForms_session_id', sessionId)
-    return sessionId
+  /**
+   * Public API: Attribute all events to an experiment variant (null removes the experiment)
+   */
+  public setExperiment(name: string, variant: string | null): void {
+    if (variant === null) {
+      delete this.experiments[name]
+    } else {
+      this.experiments[name] = variant
+    }
   }
 
   /**
-   * Public API: Manually track custom event
+   * Public API: Report the outcome of a form submitted with JavaScript
    */
-  public track(formId: string, fieldId: string, eventType: string): void {
-    if (
-      !['focus', 'blur', 'submit', 'abandon', 'error', 'change', 'interaction'].includes(
-        eventType
-      )
-    ) {
-      console.warn('[zForms] Invalid event type:', eventType)
+  public markSubmitResult(
+    formId: string,
+    result: 'success' | 'error',
+    options: { code?: string | number } = {}
+  ): void {
+    const formState = this.formStates.get(formId)
+    if (!formState) {
+      console.warn('[zForms] Unknown form:', formId)
+      return
+    }
+
+    // A submit event in progress is reported first
+    if (formState.pending_submit) {
+      this.resolveSubmitAttempt(formState, formState.pending_submit)
+    }
+    if (formState.submitted) return
+
+    if (result === 'success') {
+      this.handleSubmit(formId)
+    } else {
+      this.handleSubmitError(formState, options.code)
+    }
+  }
+
+  /**
+   * Public API: Identify the logged-in user - the ID is hashed (salted SHA-256) unless hash_user_id is false
+   * Sends an alias event linking this visitor and session to the user
+   */
+  public async identify(userId: string, traits?: CustomMetadata): Promise<void> {
+    const id = String(userId || '').trim()
+    if (!id) {
+      console.warn('[zForms] identify() needs a user ID')
       return
     }
 
+    const hashed =
+      this.config.hash_user_id === false
+        ? id
+        : await sha256(id, this.config.capture_salt || this.config.project_key)
+    if (!hashed) {
+      // Never fall back to sending the raw ID
+      console.warn('[zForms] identify() requires a secure context (https) to hash the user ID')
+      return
+    }
+    if (!this.identity.setUserId(hashed)) return
+
+    // Earlier anonymous events of this session are linked through visitor_id and session_id
     this.trackEvent({
-      form_id: formId,
-      field_id: fieldId,
-      event_type: eventType as any,
+      form_id: '',
+      field_id: '',
+      event_type: 'alias',
       session_id: this.sessionId,
+      user_id: hashed,
       timestamp: new Date().toISOString(),
+      ...(traits ? { metadata: { traits: this.toCustomMetadata(traits) } } : {}),
     })
+
+    if (this.config.debug) {
+      console.log('[zForms] Identified user:', hashed)
+    }
   }
 
   /**
-   * Public API: Get current session analytics
+   * Public API: Forget the user (logout) - starts a new anonymous visitor and a new session
    */
-  public getSessionAnalytics(): {
-    session_id: string
-    forms: Array<{
-      form_id: string
-      total_fields: number
-      completed_fields: number
-      total_interactions: number
-      total_time_spent: number
-      submitted: boolean
-    }>
-  } {
-    const forms = Array.from(this.formStates.values()).map((formState) => {
+  public reset(): void {
+    this.identity.reset()
+    this.session.reset()
+  }
+
+  /**
+   * Public API: Subscribe to session changes (new session, or one taken over from another tab)
+   * Returns an unsubscribe function
+   */
+  public onSessionChange(listener: (change: SessionChange) => void): () => void {
+    this.sessionListeners.push(listener)
+    return () => {
+      this.sessionListeners = this.sessionListeners.filter((other) => other !== listener)
+    }
+  }
+
+  /**
+   * Public API: Get current consent state
+   */
+  public getConsentState(): ConsentState {
+    return this.consent.getState()
+  }
+
+  /**
+   * Public API: Advance a multi-step form to its next step
+   */
+  public nextStep(formId: string): void {
+    const formState = this.formStates.get(formId)
+    if (!formState || formState.steps.length === 0) {
+      console.warn('[zForms] Unknown multi-step form:', formId)
+      return
+    }
+
+    const currentIndex = formState.current_step ? formState.steps.indexOf(formState.current_step) : -1
+    const next = formState.steps[currentIndex + 1]
+
+    if (next) {
+      this.transitionStep(formState, next)
+    } else {
+      // Already on the last step - just mark it complete
+      this.completeStep(formState)
+    }
+  }
+
+  /**
+   * Public API: Move a multi-step form to a specific step (by ID or index)
+   */
+  public goToStep(formId: string, step: string | number): void {
+    const formState = this.formStates.get(formId)
+    if (!formState || formState.steps.length === 0) {
+      console.warn('[zForms] Unknown multi-step form:', formId)
+      return
+    }
+
+    const stepId = typeof step === 'number' ? formState.steps[step] : step
+    if (!stepId || !formState.steps.includes(stepId)) {
+      console.warn('[zForms] Unknown step:', step)
+      return
+    }
+
+    this.transitionStep(formState, stepId)
+  }
+
+  /**
+   * Public API: Track a custom widget the selectors don't pick up (e.g. a third-party date picker)
+   */
+  public registerField(element: HTMLElement, options: { formId?: string; fieldId?: string } = {}): void {
+    let formState = options.formId ? this.formStates.get(options.formId) : undefined
+    const form = formState?.form_element.deref() ?? closestDeep<HTMLFormElement>(element, 'form')
+
+    if (!formState && form) {
+      this.attachFormListeners(form)
+      formState = this.getFormStateByElement(form) ?? undefined
+    }
+
+    if (!formState || !form) {
+      console.warn('[zForms] registerField: no tracked form for element', options.formId ?? element)
+      return
+    }
+
+    this.attachFieldListeners(form, formState, element, options.fieldId)
+    formState.total_fields = formState.field_states.size
+  }
+
+  /**
+   * Summarize tracked forms, including forms in embedded frames
+   */
+  private getFormSummaries(): FormSummary[] {
+    const forms: FormSummary[] = Array.from(this.formStates.values()).map((formState) => {
       let completedFields = 0
       let totalInteractions = 0
       let totalTimeSpent = 0
@@ -579,12 +2400,25 @@ class zForms {
         total_interactions: totalInteractions,
         total_time_spent: totalTimeSpent,
         submitted: formState.submitted,
+        experiments: { ...this.experiments, ...formState.experiments },
+        form_version: formState.form_version,
       }
     })
 
+    this.frameForms.forEach((frameForms) => forms.push(...frameForms))
+    return forms
+  }
+
+  /**
+   * Public API: Get current session analytics
+   */
+  public getSessionAnalytics(): {
+    session_id: string
+    forms: FormSummary[]
+  } {
     return {
       session_id: this.sessionId,
-      forms,
+      forms: this.getFormSummaries(),
     }
   }
 
@@ -598,17 +2432,52 @@ class zForms {
       this.mutationObserver = null
     }
 
-    // Clear all debounce timers
-    this.formStates.forEach((formState) => {
-      formState.field_states.forEach((fieldState) => {
-        if (fieldState.blur_debounce_timer) {
-          clearTimeout(fieldState.blur_debounce_timer)
-        }
-      })
-    })
+    // Restore history methods
+    if (this.routeFrame !== null) {
+      cancelAnimationFrame(this.routeFrame)
+      this.routeFrame = null
+    }
+    if (this.navigationObserver) {
+      this.navigationObserver.destroy()
+      this.navigationObserver = null
+    }
+
+    // Restore fetch and XMLHttpRequest
+    if (this.requestObserver) {
+      this.requestObserver.destroy()
+      this.requestObserver = null
+    }
+
+    // Stop watching form visibility
+    if (this.visibilityObserver) {
+      this.visibilityObserver.disconnect()
+      this.visibilityObserver = null
+    }
+
+    // Restore attachShadow
+    if (this.shadowRootObserver) {
+      this.shadowRootObserver.destroy()
+      this.shadowRootObserver = null
+    }
+
+    // Stop the iframe bridge
+    this.frameHost?.destroy()
+    this.frameClient?.destroy()
+    this.frameHost = null
+    this.frameClient = null
+    this.frameForms.clear()
+
+    // Clear all debounce timers and detach form listeners
+    Array.from(this.formStates.keys()).forEach((formId) => this.releaseForm(formId))
+
+    this.consent.destroy()
+    this.context.destroy()
+    this.pendingEvents = []
+    this.emitter.clear()
+    this.beforeSendHandlers = []
 
     // Clean up queue and states
-    this.queue.destroy()
+    this.queue?.destroy()
     this.formStates.clear()
     this.initialized = false
 
@@ -631,6 +2500,12 @@ if (projectKey) {
     project_key: projectKey,
     api_url: scriptTag?.getAttribute('data-api-url') || 'https://www.zforms.xyz/api/zforms/events',
     debug: scriptTag?.hasAttribute('data-debug'),
+    consent_required: scriptTag?.hasAttribute('data-consent-required'),
+    respect_dnt: scriptTag?.hasAttribute('data-respect-dnt'),
+    frame_origins: (scriptTag?.getAttribute('data-frame-origins') || '')
+      .split(',')
+      .map((origin) => origin.trim())
+      .filter(Boolean),
   }
 
   // Initialize automatically
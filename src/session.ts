@@ -0,0 +1,237 @@
+/**
+ * zForms Session Manager
+ * Sessions shared across tabs that end after inactivity, at midnight or on a new campaign
+ */
+
+import type { SessionData } from './types'
+
+const DEFAULT_SESSION_TIMEOUT = 30 * 60 * 1000 // 30 minutes of inactivity
+const UTM_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const
+
+export type UtmParam = (typeof UTM_PARAMS)[number]
+
+export type SessionChangeReason = 'new' | 'timeout' | 'midnight' | 'campaign' | 'reset' | 'tab' | 'frame'
+
+export interface SessionChange {
+  session_id: string
+  previous_session_id: string | null
+  started_at: number
+  reason: SessionChangeReason
+  started: boolean // A new session began here (false when taken over from another tab or the parent page)
+}
+
+/**
+ * Read UTM parameters from the current URL
+ */
+export function getCampaign(): Partial<Record<UtmParam, string>> {
+  const params = new URLSearchParams(location.search)
+  const campaign: Partial<Record<UtmParam, string>> = {}
+
+  UTM_PARAMS.forEach((param) => {
+    const value = params.get(param)
+    if (value) campaign[param] = value
+  })
+  return campaign
+}
+
+/**
+ * Get the referrer without its query string or fragment (they often carry tokens)
+ */
+export function getReferrer(): string | undefined {
+  if (!document.referrer) return undefined
+
+  try {
+    const url = new URL(document.referrer)
+    return url.origin + url.pathname
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Identify the current campaign (null when the URL has no UTM parameters)
+ */
+function getCampaignKey(): string | null {
+  const campaign = getCampaign()
+  const key = UTM_PARAMS.map((param) => campaign[param] || '').join('|')
+  return key.replace(/\|/g, '') ? key : null
+}
+
+/**
+ * Generate a session ID
+ */
+function generateSessionId(): string {
+  return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+export class SessionManager {
+  private storageKey: string
+  private timeout: number
+  private persistent: boolean
+  private current: SessionData | null = null
+  private campaign = getCampaignKey() // Campaign of the landing URL, read once per page
+  private campaignChecked = false // Only the first touch of a page may start a campaign session
+  private handler: (change: SessionChange) => void
+
+  constructor(
+    project: string,
+    timeout = DEFAULT_SESSION_TIMEOUT,
+    persistent: boolean,
+    handler: (change: SessionChange) => void
+  ) {
+    this.storageKey = `zForms_session_${project}`
+    this.timeout = timeout
+    this.persistent = persistent
+    this.handler = handler
+  }
+
+  /**
+   * Record activity - starts a new session, or joins the one another tab started, if needed
+   * Returns the current session ID
+   */
+  touch(now = Date.now()): string {
+    const stored = this.read()
+
+    // Tabs that landed with different UTM parameters must not keep restarting each other's session
+    const reason = this.getEndReason(stored, now, !this.campaignChecked)
+    this.campaignChecked = true
+
+    const previous = this.current
+    const session: SessionData = reason
+      ? { session_id: generateSessionId(), started_at: now, last_activity_at: now, campaign: this.campaign }
+      : { ...stored!, last_activity_at: now }
+
+    // Write before notifying - the handler tracks events, which touch again
+    this.write(session)
+
+    if (reason) {
+      this.notify(session, previous, reason, true)
+    } else if (previous?.session_id !== session.session_id) {
+      // Another tab (or a previous page of this session) owns the session
+      this.notify(session, previous, 'tab', false)
+    }
+
+    return session.session_id
+  }
+
+  /**
+   * End the current session and start a new one (logout)
+   */
+  reset(now = Date.now()): void {
+    const previous = this.current
+    const session: SessionData = {
+      session_id: generateSessionId(),
+      started_at: now,
+      last_activity_at: now,
+      campaign: this.campaign,
+    }
+
+    this.write(session)
+    this.notify(session, previous, 'reset', true)
+  }
+
+  /**
+   * Join a session started elsewhere (the parent page of an embedded frame)
+   */
+  adopt(sessionId: string, now = Date.now()): void {
+    const previous = this.current
+    if (previous?.session_id === sessionId) return
+
+    const session: SessionData = { session_id: sessionId, started_at: now, last_activity_at: now, campaign: null }
+    this.write(session)
+    this.notify(session, previous, 'frame', false)
+  }
+
+  /**
+   * Allow keeping the session in localStorage - or stop, removing what was stored
+   * A live session stored by an earlier page or another tab replaces the one kept in memory
+   */
+  setPersistent(persistent: boolean, adoptStored = true, now = Date.now()): void {
+    this.persistent = persistent
+
+    if (!persistent) {
+      try {
+        localStorage.removeItem(this.storageKey)
+      } catch {
+        // localStorage unavailable - nothing was stored
+      }
+      return
+    }
+
+    const stored = this.read()
+    const previous = this.current
+    if (
+      adoptStored &&
+      stored &&
+      stored.session_id !== previous?.session_id &&
+      !this.getEndReason(stored, now, true)
+    ) {
+      const session: SessionData = { ...stored, last_activity_at: now }
+      this.write(session)
+      this.notify(session, previous, 'tab', false)
+    } else if (previous) {
+      this.write(previous)
+    }
+  }
+
+  /**
+   * Why a stored session can't continue (null if it can)
+   */
+  private getEndReason(stored: SessionData | null, now: number, checkCampaign: boolean): SessionChangeReason | null {
+    if (!stored) return 'new'
+    if (now - stored.last_activity_at > this.timeout) return 'timeout'
+    if (new Date(stored.last_activity_at).toDateString() !== new Date(now).toDateString()) return 'midnight'
+    if (checkCampaign && this.campaign && this.campaign !== stored.campaign) return 'campaign'
+    return null
+  }
+
+  /**
+   * Read the session - localStorage when persistent, so tabs share it
+   */
+  private read(): SessionData | null {
+    if (this.persistent) {
+      try {
+        const raw = localStorage.getItem(this.storageKey)
+        const session = raw ? (JSON.parse(raw) as SessionData) : null
+        if (session && typeof session.session_id === 'string' && typeof session.last_activity_at === 'number') {
+          return session
+        }
+      } catch {
+        // localStorage unavailable or corrupt - fall back to memory
+      }
+    }
+    return this.current
+  }
+
+  /**
+   * Store the session in memory, and in localStorage when persistent
+   */
+  private write(session: SessionData): void {
+    this.current = session
+    if (!this.persistent) return
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(session))
+    } catch {
+      // localStorage unavailable - the session stays per tab
+    }
+  }
+
+  /**
+   * Report a session change
+   */
+  private notify(
+    session: SessionData,
+    previous: SessionData | null,
+    reason: SessionChangeReason,
+    started: boolean
+  ): void {
+    this.handler({
+      session_id: session.session_id,
+      previous_session_id: previous ? previous.session_id : null,
+      started_at: session.started_at,
+      reason,
+      started,
+    })
+  }
+}
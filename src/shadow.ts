@@ -0,0 +1,140 @@
+/**
+ * zForms Shadow DOM Helpers
+ * Traversal across open shadow roots (web components, form-associated custom elements)
+ */
+
+type ShadowRootHandler = (root: ShadowRoot) => void
+
+/**
+ * Find all elements under a node matching a predicate, descending into open shadow roots
+ * Results are in tree order (a host's shadow content comes before its light children)
+ */
+export function findAllDeep<T extends Element = HTMLElement>(
+  root: ParentNode,
+  predicate: (element: Element) => boolean
+): T[] {
+  const results: T[] = []
+
+  const visit = (parent: ParentNode) => {
+    for (const child of Array.from(parent.children)) {
+      if (predicate(child)) results.push(child as T)
+      if (child.shadowRoot) visit(child.shadowRoot)
+      visit(child)
+    }
+  }
+
+  visit(root)
+  return results
+}
+
+/**
+ * querySelectorAll that also searches open shadow roots
+ */
+export function querySelectorAllDeep<T extends Element = HTMLElement>(root: ParentNode, selector: string): T[] {
+  return findAllDeep<T>(root, (element) => element.matches(selector))
+}
+
+/**
+ * Get the open shadow roots under a node (including the node's own and nested ones)
+ */
+export function getShadowRoots(root: ParentNode): ShadowRoot[] {
+  const hosts = findAllDeep(root, (element) => element.shadowRoot !== null)
+  if (root instanceof Element && root.shadowRoot) hosts.unshift(root as HTMLElement)
+  return hosts.map((host) => host.shadowRoot!)
+}
+
+/**
+ * Element.closest that continues past shadow root boundaries to the host
+ */
+export function closestDeep<T extends Element = Element>(element: Element, selector: string): T | null {
+  let current: Element | null = element
+
+  while (current) {
+    const match = current.closest(selector)
+    if (match) return match as T
+
+    const root = current.getRootNode()
+    current = root instanceof ShadowRoot ? root.host : null
+  }
+
+  return null
+}
+
+/**
+ * Node.contains that continues past shadow root boundaries
+ */
+export function containsDeep(ancestor: Node, node: Node): boolean {
+  let current: Node | null = node
+
+  while (current) {
+    if (current === ancestor) return true
+    current = current instanceof ShadowRoot ? current.host : current.parentNode
+  }
+
+  return false
+}
+
+/**
+ * Check if an element is a form-associated custom element (static formAssociated = true)
+ */
+export function isFormAssociated(element: Element): boolean {
+  if (!element.localName.includes('-')) return false
+  return (element.constructor as { formAssociated?: boolean }).formAssociated === true
+}
+
+/**
+ * Get the element an event originated from, even when retargeted to a shadow host
+ */
+export function getEventTarget(event: Event): Element | null {
+  const origin = typeof event.composedPath === 'function' ? event.composedPath()[0] : event.target
+  return origin instanceof Element ? origin : null
+}
+
+/**
+ * Get the scope a radio/checkbox group lives in: its form, or its document or shadow root
+ */
+export function getGroupScope(input: HTMLInputElement): ParentNode {
+  return input.form ?? (input.getRootNode() as Document | ShadowRoot)
+}
+
+/**
+ * Reports open shadow roots attached after startup (e.g. elements upgraded when their
+ * custom element definition loads), which no MutationObserver would otherwise see
+ */
+export class ShadowRootObserver {
+  private originalAttachShadow: Element['attachShadow'] | null = null
+  private patchedAttachShadow: Element['attachShadow'] | null = null
+
+  constructor(handler: ShadowRootHandler) {
+    if (typeof Element === 'undefined' || typeof Element.prototype.attachShadow !== 'function') return
+
+    const originalAttachShadow = Element.prototype.attachShadow
+    this.originalAttachShadow = originalAttachShadow
+
+    this.patchedAttachShadow = function (this: Element, init: ShadowRootInit) {
+      const root = originalAttachShadow.call(this, init)
+
+      // Closed roots stay private
+      if (init.mode === 'open') {
+        try {
+          handler(root)
+        } catch (error) {
+          console.error('[zForms] Failed to observe shadow root:', error)
+        }
+      }
+      return root
+    }
+
+    Element.prototype.attachShadow = this.patchedAttachShadow
+  }
+
+  /**
+   * Restore Element.prototype.attachShadow
+   */
+  destroy(): void {
+    // Only restore if nobody wrapped attachShadow after us
+    if (this.originalAttachShadow && Element.prototype.attachShadow === this.patchedAttachShadow) {
+      Element.prototype.attachShadow = this.originalAttachShadow
+    }
+  }
+}
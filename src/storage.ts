@@ -1,21 +1,140 @@
 /**
  * zForms Storage Handler
- * Manages localStorage/IndexedDB for offline event persistence
+ * Manages IndexedDB (with localStorage fallback) for offline event persistence
  */
 
-import type { zFormsEvent } from './types'
+import type { zFormsEvent, StorageEviction } from './types'
+import { generateUUID } from './ids'
 
-const STORAGE_KEY = 'zForms_events'
+const DB_NAME = 'zForms'
+const DB_VERSION = 1
+const DB_STORE = 'events'
+const STORAGE_KEY_PREFIX = 'zForms_events_'
+const LEGACY_STORAGE_KEY = 'zForms_events' // Unversioned, pre-IndexedDB format: a plain event array
+const DROPPED_KEY_PREFIX = 'zForms_dropped_'
 const MAX_STORED_EVENTS = 1000
+const DEFAULT_TTL = 7 * 24 * 60 * 60 * 1000 // 7 days
+const DEFAULT_MAX_BYTES = 512 * 1024
 
-export class Storage {
-  private isAvailable: boolean
+export interface StorageOptions {
+  ttl?: number // How long a stored event is kept (ms)
+  max_bytes?: number // Quota for stored events per project
+  eviction?: StorageEviction // Which events to drop when over quota
+}
+
+interface StoredEvent {
+  key: string // `${project}:${event_id}`
+  project: string
+  event: zFormsEvent
+  stored_at: number
+  expires_at: number
+  bytes: number
+}
+
+interface StorageChanges {
+  remove: string[]
+  add: StoredEvent[]
+}
+
+interface StorageBackend {
+  getAll(): Promise<StoredEvent[]>
+  // Read, then remove/add in one step - the write starts synchronously, so it survives page unload
+  update(apply: (existing: StoredEvent[]) => StorageChanges): Promise<void>
+  take(): Promise<StoredEvent[]> // Read and delete in one step, so two tabs never get the same events
+}
+
+/**
+ * Sort records in insertion order
+ */
+function byStoredAt(records: StoredEvent[]): StoredEvent[] {
+  return records.sort((a, b) => a.stored_at - b.stored_at)
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+/**
+ * Wait for an IDB transaction to commit
+ */
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+class IndexedDBBackend implements StorageBackend {
+  private db: IDBDatabase
+  private project: string
 
-  constructor() {
-    this.isAvailable = this.checkStorageAvailability()
+  private constructor(db: IDBDatabase, project: string) {
+    this.db = db
+    this.project = project
   }
 
-  private checkStorageAvailability(): boolean {
+  /**
+   * Open the database (rejects where IndexedDB is unavailable, e.g. some private modes)
+   */
+  static async open(project: string): Promise<IndexedDBBackend> {
+    if (typeof indexedDB === 'undefined') {
+      throw new Error('IndexedDB not available')
+    }
+
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(DB_STORE, { keyPath: 'key' })
+      store.createIndex('project', 'project')
+    }
+
+    return new IndexedDBBackend(await request(req), project)
+  }
+
+  async getAll(): Promise<StoredEvent[]> {
+    const tx = this.db.transaction(DB_STORE, 'readonly')
+    const records = await request(tx.objectStore(DB_STORE).index('project').getAll(this.project))
+    return byStoredAt(records as StoredEvent[])
+  }
+
+  update(apply: (existing: StoredEvent[]) => StorageChanges): Promise<void> {
+    // One readwrite transaction, opened before returning - no await between read and write
+    const tx = this.db.transaction(DB_STORE, 'readwrite')
+    const store = tx.objectStore(DB_STORE)
+    const read = store.index('project').getAll(this.project)
+    read.onsuccess = () => {
+      const { remove, add } = apply(byStoredAt(read.result as StoredEvent[]))
+      remove.forEach((key) => store.delete(key))
+      add.forEach((record) => store.put(record))
+    }
+    return committed(tx)
+  }
+
+  async take(): Promise<StoredEvent[]> {
+    // Single readwrite transaction - IndexedDB serializes it against other tabs
+    const tx = this.db.transaction(DB_STORE, 'readwrite')
+    const store = tx.objectStore(DB_STORE)
+    const records = (await request(store.index('project').getAll(this.project))) as StoredEvent[]
+    records.forEach((record) => store.delete(record.key))
+    await committed(tx)
+    return byStoredAt(records)
+  }
+}
+
+class LocalStorageBackend implements StorageBackend {
+  private key: string
+
+  constructor(project: string) {
+    this.key = STORAGE_KEY_PREFIX + project
+  }
+
+  static isAvailable(): boolean {
     try {
       const test = '__zForms_test__'
       localStorage.setItem(test, test)
@@ -26,30 +145,170 @@ export class Storage {
     }
   }
 
+  async getAll(): Promise<StoredEvent[]> {
+    return this.read()
+  }
+
+  async update(apply: (existing: StoredEvent[]) => StorageChanges): Promise<void> {
+    // Synchronous read + write, so no other tab can interleave
+    const existing = this.read()
+    const { remove, add } = apply(existing)
+    const removed = new Set(remove)
+    this.write([...existing.filter((record) => !removed.has(record.key)), ...add])
+  }
+
+  async take(): Promise<StoredEvent[]> {
+    // Synchronous read + remove, so no other tab can interleave
+    const records = this.read()
+    localStorage.removeItem(this.key)
+    return records
+  }
+
+  private read(): StoredEvent[] {
+    const stored = localStorage.getItem(this.key)
+    return stored ? byStoredAt(JSON.parse(stored)) : []
+  }
+
+  private write(records: StoredEvent[]): void {
+    if (records.length === 0) {
+      localStorage.removeItem(this.key)
+    } else {
+      localStorage.setItem(this.key, JSON.stringify(records))
+    }
+  }
+}
+
+/**
+ * Work out a write: drop expired records, then evict until within quota - oldest first, or refuse the newest
+ */
+function applyQuota(
+  existing: StoredEvent[],
+  incoming: StoredEvent[],
+  now: number,
+  maxBytes: number,
+  eviction: StorageEviction
+): StorageChanges & { dropped: number } {
+  const expired = existing.filter((record) => record.expires_at <= now)
+  const combined = [...existing.filter((record) => record.expires_at > now), ...incoming]
+
+  const evicted: StoredEvent[] = []
+  let totalBytes = combined.reduce((sum, record) => sum + record.bytes, 0)
+  while (combined.length > 0 && (totalBytes > maxBytes || combined.length > MAX_STORED_EVENTS)) {
+    const record = eviction === 'newest' ? combined.pop()! : combined.shift()!
+    totalBytes -= record.bytes
+    evicted.push(record)
+  }
+
+  const existingKeys = new Set(existing.map((record) => record.key))
+  return {
+    remove: [...expired, ...evicted].filter((record) => existingKeys.has(record.key)).map((record) => record.key),
+    add: combined.filter((record) => !existingKeys.has(record.key)),
+    dropped: expired.length + evicted.length,
+  }
+}
+
+export class Storage {
+  private project: string
+  private ttl: number
+  private maxBytes: number
+  private eviction: StorageEviction
+  private backend: Promise<StorageBackend | null>
+  private openedBackend: StorageBackend | null | undefined = undefined // Set once the backend is open
+  private fallback: LocalStorageBackend | null // Synchronous writes before IndexedDB is open
+  private legacyChecked = false
+  private lastStoredAt = 0 // Keeps stored_at increasing across calls within the same millisecond
+  private droppedKey: string
+  private dropped = 0 // Used when localStorage is unavailable for the counter
+
+  constructor(project: string, options: StorageOptions = {}) {
+    this.project = project
+    this.ttl = options.ttl ?? DEFAULT_TTL
+    this.maxBytes = options.max_bytes ?? DEFAULT_MAX_BYTES
+    this.eviction = options.eviction ?? 'oldest'
+    this.droppedKey = DROPPED_KEY_PREFIX + project
+    this.fallback = LocalStorageBackend.isAvailable() ? new LocalStorageBackend(project) : null
+    this.backend = this.openBackend().then((backend) => (this.openedBackend = backend))
+  }
+
+  /**
+   * Prefer IndexedDB, fall back to localStorage, or no persistence at all
+   */
+  private async openBackend(): Promise<StorageBackend | null> {
+    try {
+      return await IndexedDBBackend.open(this.project)
+    } catch {
+      return this.fallback
+    }
+  }
+
   /**
-   * Store events in localStorage for offline persistence
+   * Store events for offline persistence, enforcing TTL and quota
    */
-  store(events: zFormsEvent[]): void {
-    if (!this.isAvailable || events.length === 0) return
+  async store(events: zFormsEvent[]): Promise<void> {
+    if (events.length === 0) return
+
+    // Called from unload handlers: no await before the write starts, or it never commits.
+    // Until IndexedDB is open, write through localStorage (drained by takeAll too)
+    const backend = this.openedBackend !== undefined ? this.openedBackend : this.fallback || (await this.backend)
+    if (!backend) {
+      this.addDropped(events.length)
+      return
+    }
 
     try {
-      const existing = this.retrieve()
-      const combined = [...existing, ...events].slice(-MAX_STORED_EVENTS)
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(combined))
+      const now = Date.now()
+      const incoming: StoredEvent[] = events.map((event) => {
+        const id = event.event_id || generateUUID()
+        this.lastStoredAt = Math.max(now, this.lastStoredAt + 0.001) // Keep insertion order
+        return {
+          key: `${this.project}:${id}`,
+          project: this.project,
+          event,
+          stored_at: this.lastStoredAt,
+          expires_at: now + this.ttl,
+          bytes: JSON.stringify(event).length,
+        }
+      })
+
+      let dropped = 0
+      await backend.update((existing) => {
+        const changes = applyQuota(existing, incoming, now, this.maxBytes, this.eviction)
+        dropped = changes.dropped
+        return changes
+      })
+
+      if (dropped > 0) {
+        this.addDropped(dropped)
+        console.warn(`[zForms] Dropped ${dropped} stored events (expired or over quota)`)
+      }
     } catch (error) {
+      this.addDropped(events.length)
       console.error('[zForms] Failed to store events:', error)
     }
   }
 
   /**
-   * Retrieve stored events from localStorage
+   * Retrieve and remove all stored events (expired ones are dropped)
    */
-  retrieve(): zFormsEvent[] {
-    if (!this.isAvailable) return []
+  async takeAll(): Promise<zFormsEvent[]> {
+    const backend = await this.backend
+    if (!backend) return []
 
     try {
-      const stored = localStorage.getItem(STORAGE_KEY)
-      return stored ? JSON.parse(stored) : []
+      const now = Date.now()
+      const records = await backend.take()
+
+      // Events written through localStorage before IndexedDB opened
+      if (this.fallback && backend !== this.fallback) {
+        records.push(...(await this.fallback.take()))
+      }
+
+      const live = byStoredAt(records).filter((record) => record.expires_at > now)
+      if (live.length < records.length) {
+        this.addDropped(records.length - live.length)
+      }
+
+      return [...this.takeLegacyEvents(now), ...live.map((record) => record.event)]
     } catch (error) {
       console.error('[zForms] Failed to retrieve events:', error)
       return []
@@ -57,22 +316,93 @@ export class Storage {
   }
 
   /**
-   * Clear stored events after successful send
+   * Drain events stored by older versions under the shared, unversioned key (once per page)
    */
-  clear(): void {
-    if (!this.isAvailable) return
+  private takeLegacyEvents(now: number): zFormsEvent[] {
+    if (this.legacyChecked || !this.fallback) return []
+    this.legacyChecked = true
 
     try {
-      localStorage.removeItem(STORAGE_KEY)
+      const stored = localStorage.getItem(LEGACY_STORAGE_KEY)
+      if (!stored) return []
+      localStorage.removeItem(LEGACY_STORAGE_KEY)
+
+      const events = JSON.parse(stored)
+      if (!Array.isArray(events)) return []
+
+      const live = events.filter(
+        (event: zFormsEvent) => event && now - Date.parse(event.timestamp) < this.ttl
+      ) as zFormsEvent[]
+      if (live.length < events.length) {
+        this.addDropped(events.length - live.length)
+      }
+      return live
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * Delete every stored event of this project, including the dropped counter
+   */
+  async clear(): Promise<void> {
+    try {
+      localStorage.removeItem(LEGACY_STORAGE_KEY)
+      await this.fallback?.take()
+      const backend = await this.backend
+      if (backend && backend !== this.fallback) await backend.take()
     } catch (error) {
-      console.error('[zForms] Failed to clear events:', error)
+      console.error('[zForms] Failed to clear stored events:', error)
     }
+    this.setDropped(0)
   }
 
   /**
    * Get count of stored events
    */
-  count(): number {
-    return this.retrieve().length
+  async count(): Promise<number> {
+    const backend = await this.backend
+    if (!backend) return 0
+
+    try {
+      return (await backend.getAll()).length
+    } catch {
+      return 0
+    }
+  }
+
+  /**
+   * Number of events lost to TTL, quota or storage errors and not yet reported
+   */
+  getDroppedCount(): number {
+    try {
+      return parseInt(localStorage.getItem(this.droppedKey) || '0', 10) || 0
+    } catch {
+      return this.dropped
+    }
+  }
+
+  /**
+   * Mark dropped events as reported to the server
+   */
+  acknowledgeDropped(count: number): void {
+    this.setDropped(Math.max(0, this.getDroppedCount() - count))
+  }
+
+  private addDropped(count: number): void {
+    this.setDropped(this.getDroppedCount() + count)
+  }
+
+  private setDropped(count: number): void {
+    this.dropped = count
+    try {
+      if (count > 0) {
+        localStorage.setItem(this.droppedKey, String(count))
+      } else {
+        localStorage.removeItem(this.droppedKey)
+      }
+    } catch {
+      // Keep the in-memory counter
+    }
   }
 }
@@ -0,0 +1,153 @@
+/**
+ * zForms Transport
+ * Delivery mechanisms for event batches (fetch, sendBeacon, XHR or custom)
+ */
+
+export interface TransportRequest {
+  url: string
+  body: string | ArrayBuffer // ArrayBuffer when gzip-compressed
+  headers: Record<string, string>
+}
+
+export interface TransportResponse {
+  ok: boolean
+  status: number // 0 when the transport cannot report a status (network error, beacon)
+  retry_after_ms?: number // Parsed Retry-After header, if any
+}
+
+export interface Transport {
+  /**
+   * Send a batch; must resolve (not reject) for HTTP errors
+   */
+  send(request: TransportRequest): Promise<TransportResponse>
+
+  /**
+   * Best-effort synchronous send while the page unloads; returns false if not queued
+   * Transports without it fall back to navigator.sendBeacon
+   */
+  sendOnUnload?(request: TransportRequest): boolean
+
+  /**
+   * False if request headers can't be sent (no Content-Encoding, so batches stay uncompressed)
+   */
+  readonly sendsHeaders?: boolean
+}
+
+export type TransportType = 'fetch' | 'beacon' | 'xhr'
+
+const REQUEST_TIMEOUT = 15000 // A hung request holds up every later batch - give up and retry with backoff
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Queue a request with navigator.sendBeacon
+ */
+function beacon(request: TransportRequest): boolean {
+  if (typeof navigator.sendBeacon !== 'function') return false
+
+  const blob = new Blob([request.body], {
+    type: request.headers['Content-Type'] || 'application/json',
+  })
+  return navigator.sendBeacon(request.url, blob)
+}
+
+export class FetchTransport implements Transport {
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
+
+    try {
+      const response = await fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+        keepalive: true, // Important for sendBeacon-like behavior
+        signal: controller.signal,
+      })
+
+      return {
+        ok: response.ok,
+        status: response.status,
+        retry_after_ms: parseRetryAfter(response.headers.get('Retry-After')),
+      }
+    } catch {
+      // Network error or timeout
+      return { ok: false, status: 0 }
+    } finally {
+      clearTimeout(timeout)
+    }
+  }
+
+  sendOnUnload(request: TransportRequest): boolean {
+    return beacon(request)
+  }
+}
+
+export class BeaconTransport implements Transport {
+  readonly sendsHeaders = false // sendBeacon only sets Content-Type
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const queued = beacon(request)
+    return { ok: queued, status: 0 }
+  }
+
+  sendOnUnload(request: TransportRequest): boolean {
+    return beacon(request)
+  }
+}
+
+export class XHRTransport implements Transport {
+  send(request: TransportRequest): Promise<TransportResponse> {
+    return new Promise((resolve) => {
+      const xhr = new XMLHttpRequest()
+      xhr.open('POST', request.url, true)
+      xhr.timeout = REQUEST_TIMEOUT
+      Object.keys(request.headers).forEach((name) => {
+        xhr.setRequestHeader(name, request.headers[name])
+      })
+
+      xhr.onload = () => {
+        resolve({
+          ok: xhr.status >= 200 && xhr.status < 300,
+          status: xhr.status,
+          retry_after_ms: parseRetryAfter(xhr.getResponseHeader('Retry-After')),
+        })
+      }
+      xhr.onerror = () => resolve({ ok: false, status: 0 })
+      xhr.ontimeout = () => resolve({ ok: false, status: 0 })
+
+      xhr.send(request.body)
+    })
+  }
+
+  sendOnUnload(request: TransportRequest): boolean {
+    return beacon(request)
+  }
+}
+
+/**
+ * Create a built-in transport, or pass a custom one through
+ */
+export function createTransport(transport: TransportType | Transport = 'fetch'): Transport {
+  if (typeof transport !== 'string') return transport
+
+  switch (transport) {
+    case 'beacon':
+      return new BeaconTransport()
+    case 'xhr':
+      return new XHRTransport()
+    default:
+      return new FetchTransport()
+  }
+}
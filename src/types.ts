@@ -2,15 +2,78 @@
  * zForms Tracking Script Types
  */
 
-export type EventType = 'focus' | 'blur' | 'submit' | 'abandon' | 'error' | 'change' | 'interaction'
+import type { Transport, TransportType } from './transport'
+
+export type EventType =
+  | 'focus'
+  | 'blur'
+  | 'submit'
+  | 'abandon'
+  | 'error'
+  | 'change'
+  | 'interaction'
+  | 'step_view'
+  | 'step_complete'
+  | 'dismiss'
+  | 'error_resolved'
+  | 'session_start'
+  | 'form_view'
+  | 'form_start'
+  | 'submit_attempt'
+  | 'submit_error'
+  | 'form_version_change'
+  | 'alias'
+  | 'frustration'
+
+export type ErrorCategory =
+  | 'value_missing'
+  | 'bad_input'
+  | 'type_mismatch'
+  | 'pattern_mismatch'
+  | 'too_short'
+  | 'too_long'
+  | 'range_underflow'
+  | 'range_overflow'
+  | 'step_mismatch'
+  | 'custom_error'
+  | 'aria_invalid' // Flagged by a JS validation library via aria-invalid
+  | 'unknown'
+
+export type FrustrationReason =
+  | 'rage_click' // Rapid repeated clicks on a submit button
+  | 'dead_click' // Rapid repeated clicks on a disabled control
+  | 'focus_cycling' // Leaving and returning to the same field within seconds, again and again
+  | 'blocked_submit' // Submit stopped by validation several times
+  | 'error_burst' // Validation errors piling up right after a long idle period
+
+export type CaptureMode = 'option' | 'length' | 'hash' | 'domain'
+
+// Built-in event types that may also be tracked manually with track()
+export type ManualEventType = 'focus' | 'blur' | 'submit' | 'abandon' | 'error' | 'change' | 'interaction'
+
+// Host-app events live under their own namespace, e.g. 'custom:coupon_applied'
+export type CustomEventType = `custom:${string}`
+
+export type CustomMetadata = Record<string, string | number | boolean | null>
+
+export type Experiments = Record<string, string> // Experiment name -> variant
+
+// Testing tools to read variants from, or a cookie holding a variant
+export type ExperimentAdapter = 'optimizely' | 'vwo' | 'abtasty' | { cookie: string; experiment?: string }
 
 export interface zFormsEvent {
+  event_id?: string // UUID for server-side deduplication (stamped when tracked)
   form_id: string
   field_id: string
-  event_type: EventType
+  event_type: EventType | CustomEventType
   time_spent_ms?: number
   session_id: string
   timestamp: string
+  page_path?: string // Route the event happened on (query string excluded)
+  visitor_id?: string // Anonymous ID that survives sessions (memory-only until consent)
+  user_id?: string // From identify(), SHA-256 hashed unless hash_user_id is false
+  experiments?: Experiments // Variants the visitor sees (setExperiment, data-zforms-variant, adapters)
+  form_version?: string // Fingerprint of the form's field structure
   metadata?: {
     interaction_count?: number
     field_completed?: boolean
@@ -20,9 +83,55 @@ export interface zFormsEvent {
     abandonment_field?: string
     is_revisit?: boolean // Track if this is a return visit to a field
     completed_fields?: number // Number of fields completed at submission
+    step_id?: string // Step the event belongs to (multi-step forms)
+    step_index?: number // Zero-based position of the step in the funnel
+    total_steps?: number // Number of steps in the funnel
+    funnel_id?: string // Groups forms that are steps of the same funnel across routes
+    completed_steps?: number // Number of steps completed before submit/abandon
+    submit_attempts?: number // Submit events so far, including failed and cancelled ones
+    default_prevented?: boolean // submit_attempt: the page cancelled native submission (JS submit or validation)
+    error_code?: string | number // submit_error: HTTP status or code passed to markSubmitResult
+    submit_outcome?: 'pending' // submit: the page moved on before the result of a JavaScript submit was known
+    time_to_first_interaction_ms?: number // From the form becoming visible to its first field focus
+    completion_time_ms?: number // Wall-clock time from the first field focus
+    active_time_ms?: number // Part of completion_time_ms spent interacting
+    idle_time_ms?: number // Part of completion_time_ms without interaction (reading, away)
+    landing_page?: string // session_start: first page of the session (query string excluded)
+    referrer?: string // session_start: referring page (query string excluded)
+    utm_source?: string
+    utm_medium?: string
+    utm_campaign?: string
+    utm_term?: string
+    utm_content?: string
+    error_category?: ErrorCategory // Why the field is invalid
+    error_message?: string // Shown error text (only for allow-listed fields)
+    correction_time_ms?: number // Time from error to the field becoming valid
+    keystrokes?: number // Typed inputs during the focus session (no characters recorded)
+    deletions?: number // Backspace/delete inputs
+    pastes?: number // Paste or drop inputs
+    autofilled?: boolean // Browser autofill filled the field
+    time_to_first_input_ms?: number // Hesitation between focus and first input
+    idle_pauses?: number // Gaps of 2s+ between inputs
+    longest_pause_ms?: number
+    capture_mode?: CaptureMode // How captured_value was derived (data-zforms-capture)
+    captured_value?: string // Option value, length bucket, salted hash or email domain - never the raw value
+    custom?: CustomMetadata // Passed to track() or added by a beforeSend handler
+    traits?: CustomMetadata // alias: traits passed to identify()
+    previous_form_version?: string // form_version_change: the fingerprint seen on earlier visits
+    frustration_reason?: FrustrationReason
+    repeat_count?: number // frustration: clicks, focus cycles, blocked submits or errors that triggered it
+    idle_ms?: number // error_burst: inactivity before the errors
   }
 }
 
+export type ConsentState = 'pending' | 'granted' | 'denied'
+
+export type BeforeSendHandler = (event: zFormsEvent) => zFormsEvent | null | false
+
+export type ConsentAdapter = 'tcf' | 'google_consent_mode'
+
+export type StorageEviction = 'oldest' | 'newest'
+
 export interface zFormsConfig {
   project_key: string
   api_url?: string
@@ -32,11 +141,81 @@ export interface zFormsConfig {
   track_changes?: boolean // Track field value changes (default: false for performance)
   debounce_time?: number // Debounce time for blur events in ms (default: 300)
   blur_threshold?: number // Minimum time in ms to track blur events (default: 100)
+  track_navigation?: boolean // Treat SPA route changes as page exits (default: true)
+  id_resolver?: (element: HTMLElement, kind: 'form' | 'field') => string | null | undefined // Custom form/field IDs
+  consent_required?: boolean // Buffer events in memory until grantConsent() (default: false)
+  consent_adapters?: ConsentAdapter[] // Read consent from a CMP (implies consent_required)
+  respect_dnt?: boolean // Never track when Global Privacy Control or Do-Not-Track is set (default: false)
+  transport?: TransportType | Transport // How batches are delivered (default: 'fetch')
+  storage_ttl?: number // How long offline events are kept in ms (default: 7 days)
+  storage_max_bytes?: number // Offline storage quota per project (default: 512KB)
+  storage_eviction?: StorageEviction // Drop the 'oldest' or 'newest' events when over quota (default: 'oldest')
+  compact_payload?: boolean // Send batches in the compact wire format (default: false)
+  compress_payload?: boolean // Gzip batches with CompressionStream when available (default: false)
+  capture_error_messages?: string[] // Field IDs whose error text may be sent ('*' for all)
+  capture_salt?: string // Salt for data-zforms-capture="hash" (default: project_key)
+  sensitive_fields?: 'anonymize' | 'skip' // Payment/ID/OTP fields: track under an anonymous ID, or not at all (default: 'anonymize')
+  deny_fields?: string[] // Never track these fields (CSS selectors, IDs or names)
+  before_send?: BeforeSendHandler // Modify an event, or return null/false to drop it (runs before beforeSend() handlers)
+  session_timeout?: number // Inactivity in ms before a new session starts (default: 30 minutes)
+  track_submit_requests?: boolean // Match fetch/XHR requests to a form's action as its submit result (default: false)
+  hash_user_id?: boolean // Hash identify() user IDs with salted SHA-256 before sending (default: true)
+  experiment_adapters?: ExperimentAdapter[] // Read A/B test variants from testing tools or cookies
+  context_query_params?: string[] // Query parameters kept in the batch context URL (default: none)
+  frame_origins?: string[] // Iframe bridge: parent page / embedded frame origins allowed to exchange events (default: [])
 }
 
 export interface EventBatch {
+  version: number // Wire format version (1 = plain JSON, 2 = compact)
   project_key: string
+  batch_id: string // UUID of this send attempt
+  sequence: number // Increments with every batch sent from this page
+  events: zFormsEvent[]
+  context?: BatchContext // The page sending the batch
+  dropped_events?: number // Events lost offline (TTL, quota or storage errors) since the last report
+}
+
+export type DeviceClass = 'mobile' | 'tablet' | 'desktop'
+
+export type ScreenClass = 'xs' | 'sm' | 'md' | 'lg' | 'xl' // Viewport width <576, <768, <992, <1200, wider
+
+export type InputModality = 'touch' | 'mouse' | 'keyboard' | 'unknown'
+
+export interface BatchContext {
+  script_version: string
+  device: DeviceClass // From pointer type and screen size, never the user agent
+  screen_class: ScreenClass
+  viewport: { width: number; height: number } // Rounded to 10px
+  input: InputModality // Last pointer used, or keyboard after Tab navigation
+  language: string
+  timezone?: string // IANA name, e.g. 'Europe/Berlin'
+  url: string // Origin and path, plus allow-listed query parameters
+  referrer?: string // Origin and path only
+  utm?: Record<string, string> // utm_* parameters of the landing URL
+}
+
+export interface FlushInfo {
+  batch_id: string
   events: zFormsEvent[]
+  beacon: boolean // Sent with sendBeacon while the page was unloading
+}
+
+// Listener payloads for zForms.on()/off()
+export interface zFormsEventMap {
+  event: zFormsEvent // Every event, as it enters the queue
+  submit: zFormsEvent
+  abandon: zFormsEvent
+  flush: FlushInfo // A batch was sent
+}
+
+export interface InputMetrics {
+  keystrokes: number
+  deletions: number
+  pastes: number
+  first_input_at: number | null
+  last_input_at: number | null
+  idle_pauses: number
+  longest_pause_ms: number
 }
 
 export interface FormFieldState {
@@ -48,7 +227,18 @@ export interface FormFieldState {
   has_value: boolean // Whether field has a value
   validation_errors: number // Count of validation errors
   field_element: WeakRef<HTMLElement> // Weak reference to avoid memory leaks
+  group_elements: WeakRef<HTMLElement>[] // Other radios/checkboxes of the same group (one logical field)
+  position: number // Logical position in the form (groups count once)
   blur_debounce_timer: number | null
+  step_id: string | null // Step this field belongs to, if the form is multi-step
+  listeners: AbortController // Aborting detaches the field's listeners
+  error_started_at: number | null // When the current (unresolved) validation error appeared
+  error_category: ErrorCategory | null
+  input_metrics: InputMetrics // Reset on every focus
+  autofilled: boolean // Survives focus changes - autofill usually happens before focus
+  sensitive: boolean // Classified as sensitive - anonymous ID, no value or error text capture
+  last_blur_at: number | null // When focus last left the field (focus cycling)
+  focus_cycles: number // Consecutive quick returns to the field
 }
 
 export interface FormState {
@@ -57,10 +247,49 @@ export interface FormState {
   submitted: boolean
   last_focused_field: string | null // Track last field user was on before abandoning
   total_fields: number
+  steps: string[] // Ordered step IDs (empty for single-step forms)
+  current_step: string | null
+  step_started_at: number | null // When the current step was shown
+  completed_steps: Set<string>
+  funnel_id: string | null
+  step_offset: number | null // Funnel position for route-based steps (form-level data-zforms-step)
+  form_element: WeakRef<HTMLFormElement>
+  page_path: string // Route the form was tracked on
+  listeners: AbortController // Aborting detaches form-level listeners (fields have their own)
+  aria_observer: MutationObserver | null // Watches aria-invalid in the form and its open shadow roots
+  tracked_at: number // performance.now() when tracking began
+  viewed_at: number | null // performance.now() when the form was first visible
+  started_at: number | null // performance.now() of the first field focus
+  last_activity_at: number | null // performance.now() of the last interaction anywhere in the form
+  active_time_ms: number // Time spent interacting since started_at
+  submit_attempts: number
+  pending_submit: Event | null // Submit event whose listeners may still call preventDefault
+  awaiting_result_since: number | null // performance.now() of a cancelled submit awaiting its result
+  experiments: Experiments // Declared on the form with data-zforms-variant
+  form_version: string
+  click_burst: { control: WeakRef<Element>; count: number; last_at: number } | null // Rage/dead clicks
+  submit_clicked_at: number | null // performance.now() of a submit click not yet followed by a submit event
+  blocked_submits: number // Submit attempts stopped by validation
+  resumed_at: number | null // performance.now() of the first interaction after a long idle period
+  idle_ms: number // Length of that idle period
+  errors_since_resume: number
+}
+
+export interface FormSummary {
+  form_id: string
+  total_fields: number
+  completed_fields: number
+  total_interactions: number
+  total_time_spent: number
+  submitted: boolean
+  experiments?: Experiments
+  form_version?: string
+  frame_origin?: string // Set for forms in an embedded iframe
 }
 
 export interface SessionData {
   session_id: string
   started_at: number
-  form_states: Map<string, FormState>
+  last_activity_at: number // Any tab's last tracked event - drives the inactivity timeout
+  campaign: string | null // UTM parameters the session started with
 }
@@ -0,0 +1,72 @@
+/**
+ * zForms Validation Helpers
+ * Classifies validation errors from ValidityState and ARIA attributes
+ */
+
+import type { ErrorCategory } from './types'
+
+const MAX_ERROR_MESSAGE_LENGTH = 200
+
+// ValidityState flag -> category, in order of precedence
+const VALIDITY_CATEGORIES: Array<[keyof ValidityState, ErrorCategory]> = [
+  ['valueMissing', 'value_missing'],
+  ['badInput', 'bad_input'],
+  ['typeMismatch', 'type_mismatch'],
+  ['patternMismatch', 'pattern_mismatch'],
+  ['tooShort', 'too_short'],
+  ['tooLong', 'too_long'],
+  ['rangeUnderflow', 'range_underflow'],
+  ['rangeOverflow', 'range_overflow'],
+  ['stepMismatch', 'step_mismatch'],
+  ['customError', 'custom_error'],
+]
+
+/**
+ * Check if an element is marked invalid with aria-invalid
+ */
+export function isAriaInvalid(element: Element): boolean {
+  const value = element.getAttribute('aria-invalid')
+  return value !== null && value !== 'false'
+}
+
+/**
+ * Check if an element currently passes native constraint validation
+ */
+export function isNativelyValid(element: HTMLElement): boolean {
+  const validity = (element as HTMLInputElement).validity
+  return !validity || validity.valid
+}
+
+/**
+ * Classify why a field is invalid
+ */
+export function getErrorCategory(element: HTMLElement): ErrorCategory {
+  const validity = (element as HTMLInputElement).validity
+  if (validity && !validity.valid) {
+    for (const [flag, category] of VALIDITY_CATEGORIES) {
+      if (validity[flag]) return category
+    }
+  }
+
+  // Invalid according to a JS validation library (React Hook Form, Zod, Yup...)
+  return isAriaInvalid(element) ? 'aria_invalid' : 'unknown'
+}
+
+/**
+ * Get the error message shown for a field (aria-errormessage, aria-describedby or native message)
+ */
+export function getErrorMessage(element: HTMLElement): string | undefined {
+  const ids = [
+    ...(element.getAttribute('aria-errormessage') || '').split(/\s+/),
+    ...(element.getAttribute('aria-describedby') || '').split(/\s+/),
+  ].filter(Boolean)
+
+  const root = element.getRootNode() as Document | ShadowRoot
+  for (const id of ids) {
+    const text = (root.getElementById?.(id)?.textContent || '').trim()
+    if (text) return text.slice(0, MAX_ERROR_MESSAGE_LENGTH)
+  }
+
+  const native = (element as HTMLInputElement).validationMessage
+  return native ? native.slice(0, MAX_ERROR_MESSAGE_LENGTH) : undefined
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { FrameBridgeHost, FrameBridgeClient } from '../src/bridge'
+import type { zFormsEvent, FormSummary } from '../src/types'
+
+const PARENT_ORIGIN = 'https://www.example.com'
+const FRAME_ORIGIN = 'https://forms.example.com'
+
+type Listener = (event: Partial<MessageEvent>) => void
+
+/**
+ * One global `window` shared by host and client: the client posts to `window.parent`,
+ * the host answers through the frame proxy it receives as `event.source`
+ */
+function createWindows() {
+  const listeners = new Set<Listener>()
+  const dispatch = (data: unknown, origin: string, source: unknown) => {
+    const message = JSON.parse(JSON.stringify(data)) // Structured clone of plain data
+    queueMicrotask(() => listeners.forEach((listener) => listener({ data: message, origin, source } as any)))
+  }
+
+  const frame = { postMessage: (data: unknown) => dispatch(data, PARENT_ORIGIN, parent) }
+  const parent = { postMessage: (data: unknown) => dispatch(data, FRAME_ORIGIN, frame) }
+  const window = {
+    parent,
+    addEventListener: (_type: string, listener: Listener) => listeners.add(listener),
+    removeEventListener: (_type: string, listener: Listener) => listeners.delete(listener),
+    setInterval: (handler: () => void, ms: number) => setInterval(handler, ms),
+    setTimeout: (handler: () => void, ms: number) => setTimeout(handler, ms),
+  }
+
+  return { window, parent, frame, listeners, dispatch }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+const event: zFormsEvent = {
+  form_id: 'signup',
+  field_id: 'email',
+  event_type: 'interaction',
+  session_id: 'frame-session',
+  timestamp: new Date().toISOString(),
+}
+
+const form: FormSummary = {
+  form_id: 'signup',
+  total_fields: 2,
+  completed_fields: 1,
+  total_interactions: 3,
+  total_time_spent: 1200,
+  submitted: false,
+}
+
+describe('frame bridge', () => {
+  let windows: ReturnType<typeof createWindows>
+
+  beforeEach(() => {
+    windows = createWindows()
+    vi.stubGlobal('window', windows.window)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('delivers events sent by the frame to the host', async () => {
+    const onEvents = vi.fn()
+    const onConnected = vi.fn()
+    const host = new FrameBridgeHost('KEY', [FRAME_ORIGIN], () => 'parent-session', onEvents)
+    const client = new FrameBridgeClient('KEY', [PARENT_ORIGIN], onConnected, vi.fn())
+
+    await flush()
+    expect(client.getState()).toBe('connected')
+    expect(onConnected).toHaveBeenCalledWith('parent-session')
+
+    client.send([event], [form])
+    await flush()
+
+    expect(onEvents).toHaveBeenCalledTimes(1)
+    const [events, forms, , origin] = onEvents.mock.calls[0]
+    expect(events).toEqual([event])
+    expect(forms).toEqual([form])
+    expect(origin).toBe(FRAME_ORIGIN)
+
+    host.destroy()
+    client.destroy()
+  })
+
+  it('never welcomes a frame with a different project key', async () => {
+    const host = new FrameBridgeHost('KEY', [FRAME_ORIGIN], () => 'parent-session', vi.fn())
+    const client = new FrameBridgeClient('OTHER', [PARENT_ORIGIN], vi.fn(), vi.fn())
+
+    await flush()
+    expect(client.getState()).toBe('connecting')
+
+    host.destroy()
+    client.destroy()
+  })
+
+  it('ignores messages from origins that are not listed', async () => {
+    const host = new FrameBridgeHost('KEY', ['https://other.example.com'], () => 'parent-session', vi.fn())
+    const client = new FrameBridgeClient('KEY', [PARENT_ORIGIN], vi.fn(), vi.fn())
+
+    await flush()
+    expect(client.getState()).toBe('connecting')
+
+    host.destroy()
+    client.destroy()
+  })
+
+  it('rejects malformed events and frames that skipped the handshake', async () => {
+    const onEvents = vi.fn()
+    const host = new FrameBridgeHost('KEY', [FRAME_ORIGIN], () => 'parent-session', onEvents)
+    const client = new FrameBridgeClient('KEY', [PARENT_ORIGIN], vi.fn(), vi.fn())
+    await flush()
+
+    const frameId = (client as any).frameId
+    const send = (events: unknown[], frame_id = frameId) =>
+      windows.dispatch({ source: 'zforms', type: 'events', frame_id, events, forms: [] }, FRAME_ORIGIN, windows.frame)
+
+    send([{ ...event, timestamp: Date.now() }])
+    send([{ ...event, form_id: undefined }])
+    send([event], 'unknown-frame')
+    await flush()
+    expect(onEvents).not.toHaveBeenCalled()
+
+    send([event])
+    await flush()
+    expect(onEvents).toHaveBeenCalledTimes(1)
+
+    host.destroy()
+    client.destroy()
+  })
+})
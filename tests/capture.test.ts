@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { captureValue, getCaptureMode, isNeverCaptured } from '../src/capture'
+import { FakeInputElement, FakeSelectElement, FakeTextAreaElement, asElement, domGlobals } from './dom'
+
+const SALT = 'KEY'
+
+function input(attributes: Record<string, string>, value = ''): HTMLElement {
+  return asElement(new FakeInputElement(attributes, value))
+}
+
+describe('value capture', () => {
+  beforeEach(() => {
+    Object.entries(domGlobals).forEach(([name, value]) => vi.stubGlobal(name, value))
+    vi.stubGlobal('CSS', { escape: (value: string) => value })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('exclusions', () => {
+    it('never captures passwords or payment card fields', () => {
+      expect(isNeverCaptured(input({ type: 'password' }))).toBe(true)
+      expect(isNeverCaptured(input({ autocomplete: 'cc-number' }))).toBe(true)
+      expect(isNeverCaptured(input({ autocomplete: 'billing cc-exp' }))).toBe(true)
+      expect(isNeverCaptured(input({ type: 'email', autocomplete: 'email' }))).toBe(false)
+    })
+
+    it('ignores the opt-in on excluded fields', () => {
+      expect(getCaptureMode(input({ type: 'password', 'data-zforms-capture': 'length' }))).toBeNull()
+      expect(getCaptureMode(input({ autocomplete: 'cc-csc', 'data-zforms-capture': 'hash' }))).toBeNull()
+    })
+
+    it('only accepts known modes', () => {
+      expect(getCaptureMode(input({ 'data-zforms-capture': 'raw' }))).toBeNull()
+      expect(getCaptureMode(input({}))).toBeNull()
+      expect(getCaptureMode(input({ 'data-zforms-capture': 'domain' }))).toBe('domain')
+    })
+
+    it('re-checks exclusions at capture time', async () => {
+      expect(await captureValue(input({ type: 'password' }, 'hunter2'), 'length', SALT)).toBeUndefined()
+      const card = input({ autocomplete: 'cc-number' }, '4111111111111111')
+      expect(await captureValue(card, 'hash', SALT)).toBeUndefined()
+    })
+  })
+
+  describe('modes', () => {
+    it('captures options only for fixed choices', async () => {
+      const select = new FakeSelectElement()
+      select.selectedOptions = [{ value: 'pro' }]
+      expect(await captureValue(asElement(select), 'option', SALT)).toBe('pro')
+      expect(await captureValue(input({ type: 'text' }, 'free text'), 'option', SALT)).toBeUndefined()
+    })
+
+    it("captures a radio group's checked value", async () => {
+      const radios = ['monthly', 'yearly'].map(
+        (value) => new FakeInputElement({ type: 'radio', name: 'plan' }, value)
+      )
+      radios[1].checked = true
+      const form = { querySelectorAll: () => radios }
+      radios.forEach((radio) => Object.assign(radio, { form }))
+
+      expect(await captureValue(asElement(radios[0]), 'option', SALT)).toBe('yearly')
+    })
+
+    it('buckets lengths', async () => {
+      expect(await captureValue(input({}, ''), 'length', SALT)).toBe('0')
+      expect(await captureValue(input({}, 'abc'), 'length', SALT)).toBe('1-5')
+      expect(await captureValue(input({}, 'a'.repeat(15)), 'length', SALT)).toBe('11-20')
+      expect(await captureValue(input({}, 'a'.repeat(500)), 'length', SALT)).toBe('100+')
+
+      const textarea = new FakeTextAreaElement()
+      textarea.value = '  padded  '
+      expect(await captureValue(asElement(textarea), 'length', SALT)).toBe('6-10')
+    })
+
+    it('hashes case-insensitively with the salt', async () => {
+      const hash = await captureValue(input({}, 'Jane@Example.com'), 'hash', SALT)
+      expect(hash).toMatch(/^[0-9a-f]{64}$/)
+      expect(await captureValue(input({}, 'jane@example.com'), 'hash', SALT)).toBe(hash)
+      expect(await captureValue(input({}, 'jane@example.com'), 'hash', 'OTHER')).not.toBe(hash)
+      expect(await captureValue(input({}, ''), 'hash', SALT)).toBeUndefined()
+    })
+
+    it('keeps only the email domain', async () => {
+      expect(await captureValue(input({}, 'jane@Example.com'), 'domain', SALT)).toBe('example.com')
+      expect(await captureValue(input({}, 'not an email'), 'domain', SALT)).toBeUndefined()
+      expect(await captureValue(input({}, 'jane@'), 'domain', SALT)).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { ConsentManager, hasPrivacySignal } from '../src/consent'
+
+describe('consent', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('detects Global Privacy Control and Do-Not-Track', () => {
+    vi.stubGlobal('window', {})
+    vi.stubGlobal('navigator', { globalPrivacyControl: true, doNotTrack: null })
+    expect(hasPrivacySignal()).toBe(true)
+
+    vi.stubGlobal('navigator', { doNotTrack: 'unspecified' })
+    expect(hasPrivacySignal()).toBe(false)
+
+    vi.stubGlobal('window', { doNotTrack: '1' })
+    expect(hasPrivacySignal()).toBe(true)
+  })
+
+  it('follows gtag consent commands, ignoring a denied default', () => {
+    const dataLayer: unknown[] = [['consent', 'default', { analytics_storage: 'denied' }]]
+    vi.stubGlobal('window', { dataLayer })
+    const handler = vi.fn()
+    const consent = new ConsentManager('pending', handler)
+    consent.watch(['google_consent_mode'])
+    expect(consent.getState()).toBe('pending')
+
+    // gtag() pushes its arguments object
+    const gtag = function (..._args: unknown[]) {
+      dataLayer.push(arguments)
+    }
+    dataLayer.push({ event: 'page_view' })
+    gtag('consent', 'update', { analytics_storage: 'granted' })
+    expect(consent.getState()).toBe('granted')
+
+    gtag('consent', 'update', { analytics_storage: 'denied' })
+    expect(handler.mock.calls).toEqual([['granted'], ['denied']])
+
+    consent.destroy()
+  })
+
+  it('reads TCF purpose consents once the decision is final', () => {
+    type Listener = (tcData: object | null, success: boolean) => void
+    let listener: Listener = () => undefined
+    const tcfapi = vi.fn((command: string, _version: number, callback: Listener) => {
+      if (command === 'addEventListener') listener = callback
+    })
+    vi.stubGlobal('window', { __tcfapi: tcfapi })
+    const consent = new ConsentManager('pending', vi.fn())
+    consent.watch(['tcf'])
+
+    listener({ eventStatus: 'cmpuishown', listenerId: 4, purpose: { consents: { 1: true, 8: true } } }, true)
+    expect(consent.getState()).toBe('pending')
+
+    listener({ eventStatus: 'useractioncomplete', listenerId: 4, purpose: { consents: { 1: true } } }, true)
+    expect(consent.getState()).toBe('denied')
+
+    listener({ eventStatus: 'useractioncomplete', listenerId: 4, purpose: { consents: { 1: true, 8: true } } }, true)
+    expect(consent.getState()).toBe('granted')
+
+    consent.destroy()
+    expect(tcfapi).toHaveBeenLastCalledWith('removeEventListener', 2, expect.any(Function), 4)
+  })
+})
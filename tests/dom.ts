@@ -0,0 +1,63 @@
+/**
+ * Minimal element stand-ins for testing DOM-reading helpers without a browser
+ */
+
+export class FakeElement {
+  id = ''
+  textContent = ''
+  labels: Array<{ textContent: string }> = []
+  private attributes: Record<string, string>
+
+  constructor(attributes: Record<string, string> = {}) {
+    this.attributes = attributes
+    this.id = attributes.id || ''
+  }
+
+  getAttribute(name: string): string | null {
+    return name in this.attributes ? this.attributes[name] : null
+  }
+}
+
+export class FakeInputElement extends FakeElement {
+  value: string
+  checked = false
+  maxLength: number
+
+  constructor(attributes: Record<string, string> = {}, value = '') {
+    super(attributes)
+    this.value = value
+    this.maxLength = attributes.maxlength ? Number(attributes.maxlength) : -1
+  }
+
+  get type(): string {
+    return this.getAttribute('type') || 'text'
+  }
+
+  get name(): string {
+    return this.getAttribute('name') || ''
+  }
+}
+
+export class FakeTextAreaElement extends FakeElement {
+  value = ''
+}
+
+export class FakeSelectElement extends FakeElement {
+  selectedOptions: Array<{ value: string }> = []
+}
+
+/**
+ * Globals the helpers check with instanceof
+ */
+export const domGlobals = {
+  HTMLInputElement: FakeInputElement,
+  HTMLTextAreaElement: FakeTextAreaElement,
+  HTMLSelectElement: FakeSelectElement,
+}
+
+/**
+ * Cast a fake to the element type the helpers expect
+ */
+export function asElement<T = HTMLElement>(fake: FakeElement): T {
+  return fake as unknown as T
+}
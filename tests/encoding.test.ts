@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import { gunzipSync } from 'node:zlib'
+import { encodeBatch, toCompactBatch, gzip, PLAIN_FORMAT_VERSION, COMPACT_FORMAT_VERSION } from '../src/encoding'
+import type { CompactEventBatch } from '../src/encoding'
+import type { EventBatch, zFormsEvent } from '../src/types'
+
+const LONG_KEYS: Record<string, string> = {
+  id: 'event_id',
+  f: 'form_id',
+  fi: 'field_id',
+  t: 'event_type',
+  ms: 'time_spent_ms',
+  s: 'session_id',
+  ts: 'timestamp',
+  p: 'page_path',
+  m: 'metadata',
+  x: 'experiments',
+  v: 'form_version',
+  vi: 'visitor_id',
+  u: 'user_id',
+}
+const DICTIONARY_FIELDS = [
+  'form_id',
+  'field_id',
+  'event_type',
+  'page_path',
+  'session_id',
+  'form_version',
+  'visitor_id',
+  'user_id',
+]
+
+/**
+ * What the server does with a compact batch
+ */
+function decode(compact: CompactEventBatch): zFormsEvent[] {
+  return compact.events.map((event) => {
+    const decoded: Record<string, unknown> = { ...compact.shared }
+
+    for (const [shortKey, value] of Object.entries(event)) {
+      const key = LONG_KEYS[shortKey] || shortKey
+      if (key === 'timestamp') {
+        decoded[key] = new Date(compact.base_time + (value as number)).toISOString()
+      } else if (key === 'metadata') {
+        decoded[key] = Object.fromEntries(
+          Object.entries(value as object).map(([index, metaValue]) => [compact.strings[Number(index)], metaValue])
+        )
+      } else if (DICTIONARY_FIELDS.includes(key) && typeof value === 'number') {
+        decoded[key] = compact.strings[value]
+      } else {
+        decoded[key] = value
+      }
+    }
+
+    return decoded as unknown as zFormsEvent
+  })
+}
+
+const events: zFormsEvent[] = [
+  {
+    event_id: 'e1',
+    form_id: 'signup',
+    field_id: 'email',
+    event_type: 'blur',
+    time_spent_ms: 1200,
+    session_id: 'session-1',
+    visitor_id: 'visitor-1',
+    timestamp: '2026-01-01T10:00:00.000Z',
+    page_path: '/signup',
+    metadata: { interaction_count: 2, field_completed: true, keystrokes: 14 },
+    experiments: { checkout: 'b' },
+    form_version: 'abc123',
+  },
+  {
+    event_id: 'e2',
+    form_id: 'signup',
+    field_id: '__form__',
+    event_type: 'submit',
+    session_id: 'session-1',
+    visitor_id: 'visitor-1',
+    user_id: 'hashed-user',
+    timestamp: '2026-01-01T10:00:04.250Z',
+    page_path: '/signup',
+    metadata: { interaction_count: 5, completed_fields: 2 },
+  },
+]
+
+const batch: EventBatch = {
+  version: PLAIN_FORMAT_VERSION,
+  project_key: 'KEY',
+  batch_id: 'batch-1',
+  sequence: 3,
+  events,
+  dropped_events: 2,
+}
+
+describe('encoding', () => {
+  it('sends the plain format unchanged', () => {
+    expect(JSON.parse(encodeBatch(batch, false))).toEqual(batch)
+  })
+
+  it('round-trips events through the compact format', () => {
+    const compact = JSON.parse(encodeBatch(batch, true)) as CompactEventBatch
+
+    expect(compact.version).toBe(COMPACT_FORMAT_VERSION)
+    expect(compact.batch_id).toBe('batch-1')
+    expect(compact.sequence).toBe(3)
+    expect(compact.dropped_events).toBe(2)
+    expect(decode(compact)).toEqual(events)
+  })
+
+  it('hoists only fields every event shares', () => {
+    const compact = toCompactBatch(batch)
+
+    expect(compact.shared).toEqual({
+      session_id: 'session-1',
+      visitor_id: 'visitor-1',
+      form_id: 'signup',
+      page_path: '/signup',
+    })
+    expect(compact.events[1].u).toBe(compact.strings.indexOf('hashed-user'))
+  })
+
+  it('stores each repeated string once', () => {
+    const compact = toCompactBatch(batch)
+    expect(compact.strings.filter((value) => value === 'interaction_count')).toHaveLength(1)
+  })
+
+  it('keeps the batch context as-is', () => {
+    const context = { script_version: '1.0.0', device: 'mobile', url: 'https://example.com/' } as EventBatch['context']
+    expect(toCompactBatch({ ...batch, context }).context).toEqual(context)
+  })
+
+  it('gzips a body that decompresses to the original', async () => {
+    const body = encodeBatch(batch, true)
+    const compressed = await gzip(body)
+    expect(gunzipSync(Buffer.from(compressed)).toString()).toBe(body)
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { isSensitiveField, isDenied, scrubId } from '../src/privacy'
+import { FakeElement, FakeInputElement, asElement } from './dom'
+
+/**
+ * A field with the given attributes and label text
+ */
+function field(attributes: Record<string, string>, label = ''): HTMLElement {
+  const input = new FakeInputElement(attributes)
+  if (label) input.labels = [{ textContent: label }]
+  return asElement(input)
+}
+
+describe('isSensitiveField', () => {
+  it.each([
+    [{ autocomplete: 'cc-number' }],
+    [{ autocomplete: 'billing cc-csc' }],
+    [{ autocomplete: 'one-time-code' }],
+    [{ autocomplete: 'new-password' }],
+    [{ autocomplete: 'bday' }],
+    [{ name: 'ssn' }],
+    [{ id: 'cardCvv' }],
+    [{ name: 'user_pin' }],
+    [{ name: 'iban-number' }],
+    [{ placeholder: 'Card number' }],
+    [{ name: 'dateOfBirth' }],
+    [{ inputmode: 'numeric', maxlength: '1' }],
+  ])('flags %o', (attributes) => {
+    expect(isSensitiveField(field(attributes))).toBe(true)
+  })
+
+  it('reads the label text', () => {
+    expect(isSensitiveField(field({ name: 'field_7' }, 'Social Security Number'))).toBe(true)
+    expect(isSensitiveField(field({ name: 'field_8' }, 'Security code'))).toBe(true)
+  })
+
+  it.each([
+    [{ name: 'shipping_address' }], // Contains "pin" but not as a word
+    [{ name: 'spinner' }],
+    [{ name: 'destination' }], // Contains "tin"
+    [{ name: 'email', autocomplete: 'email' }],
+    [{ name: 'first_name' }],
+    [{ inputmode: 'numeric', maxlength: '5' }],
+  ])('does not flag %o', (attributes) => {
+    expect(isSensitiveField(field(attributes))).toBe(false)
+  })
+})
+
+describe('isDenied', () => {
+  const element = Object.assign(new FakeElement({ id: 'promo', name: 'promo_code' }), {
+    matches: (selector: string) => {
+      if (selector === '[') throw new SyntaxError('Invalid selector')
+      return selector === '.internal'
+    },
+  })
+
+  it('matches IDs, names and selectors', () => {
+    expect(isDenied(asElement(element), ['promo'])).toBe(true)
+    expect(isDenied(asElement(element), ['promo_code'])).toBe(true)
+    expect(isDenied(asElement(element), ['.internal'])).toBe(true)
+    expect(isDenied(asElement(element), ['other'])).toBe(false)
+  })
+
+  it('ignores invalid selectors', () => {
+    expect(isDenied(asElement(element), ['['])).toBe(false)
+  })
+})
+
+describe('scrubId', () => {
+  it('replaces emails, UUIDs and long numbers', () => {
+    expect(scrubId('jane.doe@example.com')).toBe('[email]')
+    expect(scrubId('newsletter-jane.doe@example.com')).not.toContain('@')
+    expect(scrubId('order-123e4567-e89b-12d3-a456-426614174000')).toBe('order-[uuid]')
+    expect(scrubId('customer_12345678_notes')).toBe('customer_[number]_notes')
+  })
+
+  it('keeps ordinary identifiers', () => {
+    expect(scrubId('address_line_2')).toBe('address_line_2')
+    expect(scrubId('step-12345')).toBe('step-12345') // Short numbers are usually positions
+  })
+})
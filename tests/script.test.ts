@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { FormFieldState, FormState, zFormsEvent } from '../src/types'
+import type zFormsClass from '../src/script'
+
+type Tracker = InstanceType<typeof zFormsClass>
+
+/**
+ * Browser globals the tracker touches before any form is attached
+ * (the document is still loading, so no DOM is scanned)
+ */
+function stubBrowser(): void {
+  const noop = () => undefined
+  vi.stubGlobal('document', {
+    currentScript: null,
+    readyState: 'loading',
+    referrer: '',
+    visibilityState: 'visible',
+    addEventListener: noop,
+    removeEventListener: noop,
+  })
+  vi.stubGlobal('window', {
+    innerWidth: 1280,
+    innerHeight: 800,
+    addEventListener: noop,
+    removeEventListener: noop,
+  })
+  vi.stubGlobal('location', { pathname: '/signup', hash: '', search: '', href: 'https://example.com/signup' })
+  vi.stubGlobal('navigator', { language: 'en' })
+  vi.stubGlobal('requestAnimationFrame', () => 0)
+  vi.stubGlobal('cancelAnimationFrame', noop)
+  vi.stubGlobal('ShadowRoot', class {})
+}
+
+/**
+ * A started form, as attachFormListeners leaves it after the visitor filled in a field
+ */
+function createFormState(overrides: Partial<FormState> = {}): FormState {
+  return {
+    form_id: 'signup',
+    field_states: new Map(),
+    submitted: false,
+    last_focused_field: 'email',
+    total_fields: 1,
+    steps: [],
+    current_step: null,
+    step_started_at: null,
+    completed_steps: new Set(),
+    funnel_id: null,
+    step_offset: null,
+    form_element: new WeakRef({} as HTMLFormElement),
+    page_path: '/signup',
+    listeners: new AbortController(),
+    aria_observer: null,
+    tracked_at: 0,
+    viewed_at: null,
+    started_at: null,
+    last_activity_at: null,
+    active_time_ms: 0,
+    submit_attempts: 0,
+    pending_submit: null,
+    awaiting_result_since: null,
+    experiments: {},
+    form_version: 'v1',
+    click_burst: null,
+    submit_clicked_at: null,
+    blocked_submits: 0,
+    resumed_at: null,
+    idle_ms: 0,
+    errors_since_resume: 0,
+    ...overrides,
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('zForms', () => {
+  let tracker: Tracker
+  let events: zFormsEvent[]
+
+  const internals = () => tracker as any
+  const types = () => events.map((event) => event.event_type).filter((type) => type !== 'session_start')
+
+  function track(formState: FormState): FormState {
+    internals().formStates.set(formState.form_id, formState)
+    return formState
+  }
+
+  async function submit(formState: FormState, defaultPrevented: boolean): Promise<void> {
+    internals().handleSubmitAttempt(formState, { defaultPrevented } as Event)
+    await flush()
+  }
+
+  beforeEach(async () => {
+    stubBrowser()
+    const { default: zForms } = await import('../src/script')
+    events = []
+    // Consent stays pending, so no queue, storage or network is created
+    tracker = new zForms({
+      project_key: 'KEY',
+      consent_required: true,
+      before_send: (event) => {
+        events.push(event)
+        return event
+      },
+    })
+  })
+
+  afterEach(() => {
+    tracker.destroy()
+    vi.unstubAllGlobals()
+  })
+
+  describe('leaving a form', () => {
+    it('reports a JavaScript submit without a result as a pending submit on route change', async () => {
+      const formState = track(createFormState())
+      await submit(formState, true)
+
+      internals().handleRouteChange('/signup', '/thanks')
+
+      expect(types()).toEqual(['submit_attempt', 'submit'])
+      expect(events.find((event) => event.event_type === 'submit')?.metadata?.submit_outcome).toBe('pending')
+    })
+
+    it('reports leaving after a failed submit as abandonment', async () => {
+      const formState = track(createFormState())
+      await submit(formState, true)
+      tracker.markSubmitResult('signup', 'error', { code: 500 })
+
+      internals().handleRouteChange('/signup', '/home')
+
+      expect(types()).toEqual(['submit_attempt', 'submit_error', 'abandon'])
+    })
+
+    it('does not report a completed route-level step as abandoned', async () => {
+      track(createFormState({ steps: ['shipping'], current_step: 'shipping', step_offset: 1, funnel_id: 'checkout' }))
+
+      tracker.nextStep('signup')
+      internals().handleRouteChange('/signup', '/payment')
+
+      expect(types()).toEqual(['step_complete'])
+    })
+
+    it('reports leaving a route-level step before completing it as abandonment', async () => {
+      track(createFormState({ steps: ['shipping'], current_step: 'shipping', step_offset: 1, funnel_id: 'checkout' }))
+
+      internals().handleRouteChange('/signup', '/home')
+
+      expect(types()).toEqual(['abandon'])
+    })
+
+    it('reports leaving after a submit blocked by validation as abandonment', async () => {
+      const formState = track(createFormState())
+      formState.field_states.set('email', {
+        error_started_at: Date.now(),
+        blur_debounce_timer: null,
+        listeners: new AbortController(),
+      } as unknown as FormFieldState)
+      await submit(formState, true)
+
+      internals().handleRouteChange('/signup', '/home')
+
+      expect(types()).toEqual(['submit_attempt', 'abandon'])
+    })
+  })
+
+  describe('consent', () => {
+    it('deletes the remembered form versions when consent is denied', () => {
+      const items = new Map([['zForms_form_versions_KEY', '{"signup":"v1"}']])
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => void items.set(key, value),
+        removeItem: (key: string) => void items.delete(key),
+      })
+
+      tracker.denyConsent()
+
+      expect(items.has('zForms_form_versions_KEY')).toBe(false)
+    })
+  })
+
+  describe('content added to a form', () => {
+    class FakeHTMLElement {
+      localName = 'div'
+      children: FakeHTMLElement[] = []
+      shadowRoot = null
+      parentElement: FakeHTMLElement | null = null
+      isField = false
+
+      matches(): boolean {
+        return this.isField
+      }
+      closest(selector: string): FakeHTMLElement | null {
+        return selector === 'form' ? form : null
+      }
+      getRootNode(): object {
+        return {}
+      }
+    }
+    class FakeHTMLFormElement extends FakeHTMLElement {}
+
+    const form = new FakeHTMLFormElement()
+
+    function addedNode(isField: boolean): HTMLElement {
+      const node = Object.assign(new FakeHTMLElement(), { parentElement: form, isField })
+      return node as unknown as HTMLElement
+    }
+
+    beforeEach(() => {
+      vi.stubGlobal('Element', FakeHTMLElement)
+      vi.stubGlobal('HTMLElement', FakeHTMLElement)
+      vi.stubGlobal('HTMLFormElement', FakeHTMLFormElement)
+      track(createFormState({ form_element: new WeakRef(form as unknown as HTMLFormElement) }))
+    })
+
+    it('only rescans the form when a field was added', () => {
+      const rescan = vi.spyOn(internals(), 'getTrackableFields').mockReturnValue([])
+
+      internals().handleAddedNode(addedNode(false)) // e.g. a validation message
+      expect(rescan).not.toHaveBeenCalled()
+
+      internals().handleAddedNode(addedNode(true))
+      expect(rescan).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('attaching forms', () => {
+    it('does not track a form twice when its derived ID changes', () => {
+      const form = { closest: () => null, getRootNode: () => ({}) } as unknown as HTMLFormElement
+      track(createFormState({ form_element: new WeakRef(form) }))
+
+      // Fields changed or an identical twin mounted since the form was attached
+      vi.spyOn(internals(), 'getFormId').mockReturnValue('form_changed')
+      internals().attachFormListeners(form)
+
+      expect(Array.from(internals().formStates.keys())).toEqual(['signup'])
+    })
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Storage } from '../src/storage'
+import type { zFormsEvent } from '../src/types'
+
+/**
+ * In-memory localStorage (IndexedDB doesn't exist in Node, so Storage falls back to it)
+ */
+function createLocalStorage() {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: (key: string) => (items.has(key) ? items.get(key)! : null),
+    setItem: (key: string, value: string) => void items.set(key, String(value)),
+    removeItem: (key: string) => void items.delete(key),
+  }
+}
+
+function createEvents(count: number, prefix = 'e'): zFormsEvent[] {
+  return Array.from({ length: count }, (_, index) => ({
+    event_id: `${prefix}${index}`,
+    form_id: 'signup',
+    field_id: 'email',
+    event_type: 'blur',
+    session_id: 'session-1',
+    timestamp: new Date().toISOString(),
+  }))
+}
+
+const ids = (events: zFormsEvent[]) => events.map((event) => event.event_id)
+
+describe('Storage', () => {
+  let localStorage: ReturnType<typeof createLocalStorage>
+
+  beforeEach(() => {
+    localStorage = createLocalStorage()
+    vi.stubGlobal('localStorage', localStorage)
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T10:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('returns stored events once, in order', async () => {
+    const storage = new Storage('KEY')
+    await storage.store(createEvents(2, 'a'))
+    await storage.store(createEvents(2, 'b'))
+
+    expect(ids(await storage.takeAll())).toEqual(['a0', 'a1', 'b0', 'b1'])
+    expect(await storage.takeAll()).toEqual([])
+  })
+
+  it('keeps projects apart', async () => {
+    await new Storage('ONE').store(createEvents(1, 'one'))
+    await new Storage('TWO').store(createEvents(1, 'two'))
+
+    expect(ids(await new Storage('ONE').takeAll())).toEqual(['one0'])
+  })
+
+  it('writes synchronously, so events stored while the page unloads are kept', () => {
+    const storage = new Storage('KEY')
+    void storage.store(createEvents(1))
+
+    expect(localStorage.getItem('zForms_events_KEY')).toContain('e0')
+  })
+
+  it('drops expired events and reports them', async () => {
+    const storage = new Storage('KEY', { ttl: 60000 })
+    await storage.store(createEvents(2, 'old'))
+
+    vi.setSystemTime(new Date('2026-01-01T10:05:00Z'))
+    await storage.store(createEvents(1, 'new'))
+
+    expect(ids(await storage.takeAll())).toEqual(['new0'])
+    expect(storage.getDroppedCount()).toBe(2)
+
+    storage.acknowledgeDropped(2)
+    expect(storage.getDroppedCount()).toBe(0)
+  })
+
+  it('drops events that expire before they are read', async () => {
+    const storage = new Storage('KEY', { ttl: 60000 })
+    await storage.store(createEvents(3))
+
+    vi.setSystemTime(new Date('2026-01-01T10:05:00Z'))
+    expect(await storage.takeAll()).toEqual([])
+    expect(storage.getDroppedCount()).toBe(3)
+  })
+
+  it('evicts the oldest events when over quota', async () => {
+    const size = JSON.stringify(createEvents(1)[0]).length
+    const storage = new Storage('KEY', { max_bytes: size * 3 })
+    await storage.store(createEvents(2, 'a'))
+    await storage.store(createEvents(2, 'b'))
+
+    expect(ids(await storage.takeAll())).toEqual(['a1', 'b0', 'b1'])
+    expect(storage.getDroppedCount()).toBe(1)
+  })
+
+  it('refuses the newest events with the newest eviction policy', async () => {
+    const size = JSON.stringify(createEvents(1)[0]).length
+    const storage = new Storage('KEY', { max_bytes: size * 3, eviction: 'newest' })
+    await storage.store(createEvents(2, 'a'))
+    await storage.store(createEvents(2, 'b'))
+
+    expect(ids(await storage.takeAll())).toEqual(['a0', 'a1', 'b0'])
+    expect(storage.getDroppedCount()).toBe(1)
+  })
+
+  it('drains events stored under the legacy key once', async () => {
+    localStorage.setItem('zForms_events', JSON.stringify(createEvents(2, 'legacy')))
+    const storage = new Storage('KEY')
+    await storage.store(createEvents(1))
+
+    expect(ids(await storage.takeAll())).toEqual(['legacy0', 'legacy1', 'e0'])
+    expect(localStorage.getItem('zForms_events')).toBeNull()
+  })
+
+  it('deletes everything on clear', async () => {
+    localStorage.setItem('zForms_events', JSON.stringify(createEvents(1, 'legacy')))
+    const storage = new Storage('KEY', { ttl: 60000 })
+    await storage.store(createEvents(2))
+    vi.setSystemTime(new Date('2026-01-01T10:05:00Z'))
+    await storage.store(createEvents(1, 'new')) // Reports the expired ones as dropped
+
+    await storage.clear()
+
+    expect(await storage.takeAll()).toEqual([])
+    expect(storage.getDroppedCount()).toBe(0)
+    expect(localStorage.items.size).toBe(0)
+  })
+})
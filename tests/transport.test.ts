@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { FetchTransport, XHRTransport, parseRetryAfter } from '../src/transport'
+
+const request = { url: 'https://example.com/events', body: '{}', headers: { 'Content-Type': 'application/json' } }
+
+/**
+ * An XMLHttpRequest that never answers, but times out like the real one
+ */
+class HungXMLHttpRequest {
+  timeout = 0
+  status = 0
+  onload: (() => void) | null = null
+  onerror: (() => void) | null = null
+  ontimeout: (() => void) | null = null
+
+  open(): void {}
+  setRequestHeader(): void {}
+  getResponseHeader(): string | null {
+    return null
+  }
+
+  send(): void {
+    if (this.timeout > 0) setTimeout(() => this.ontimeout?.(), this.timeout)
+  }
+}
+
+describe('transports', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('reports the fetch response', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(null, { status: 429, headers: { 'Retry-After': '30' } }))
+    )
+
+    expect(await new FetchTransport().send(request)).toEqual({ ok: false, status: 429, retry_after_ms: 30000 })
+  })
+
+  it('gives up on a hung fetch', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+          })
+      )
+    )
+
+    const result = new FetchTransport().send(request)
+    await vi.advanceTimersByTimeAsync(15000)
+
+    expect(await result).toEqual({ ok: false, status: 0 })
+  })
+
+  it('gives up on a hung XHR', async () => {
+    vi.stubGlobal('XMLHttpRequest', HungXMLHttpRequest)
+
+    const result = new XHRTransport().send(request)
+    await vi.advanceTimersByTimeAsync(15000)
+
+    expect(await result).toEqual({ ok: false, status: 0 })
+  })
+
+  it('parses Retry-After seconds and dates', () => {
+    vi.setSystemTime(new Date('2026-01-01T10:00:00Z'))
+    expect(parseRetryAfter('120')).toBe(120000)
+    expect(parseRetryAfter('Thu, 01 Jan 2026 10:01:00 GMT')).toBe(60000)
+    expect(parseRetryAfter('soon')).toBeUndefined()
+    expect(parseRetryAfter(null)).toBeUndefined()
+  })
+})